@@ -1,5 +1,7 @@
 import "./src/style/global.css";
 import { useFormix } from "./src/hooks/useFormix";
+import { useFieldOptions } from "./src/hooks/useFieldOptions";
+import { useSchemaFieldArray } from "./src/hooks/useSchemaFieldArray";
 import FormixProvider from "./src/context/form.provider";
 import { ThemeProvider, useTheme } from "@/context/theme.provider";
 import {
@@ -11,18 +13,59 @@ import {
   FormDescription,
   FormField,
   FormFlexFields,
+  FormFieldArray,
+  FormSection,
   FormFooter,
   FormHeader,
   FieldItem,
   FieldLabel,
   FormTitle,
+  FormStepIndicator,
+  FormStepNavigation,
   useFormField,
   FieldErrorMessage,
+  FormErrorMessage,
 } from "./src/components/form";
+import {
+  TextField,
+  TextareaField,
+  SelectField,
+  MultiSelectField,
+  TableSelectField,
+  RadioGroupField,
+  CheckboxField,
+  SwitchField,
+  SliderField,
+  DateField,
+  DateRangeField,
+  DateTimeField,
+  FileField,
+  OtpField,
+  ToggleGroupField,
+  registerFieldType,
+  unregisterFieldType,
+  resolveFieldType,
+  isFieldTypeRegistered,
+} from "./src/components/form/fields";
+import { fileValidation } from "./src/utils/fileValidation";
+import { FormSubmissionError } from "./src/utils/formSubmissionError";
+import { loadFormSchema } from "./src/utils/loadFormSchema";
+import { serializeFormSchema } from "./src/utils/serializeFormSchema";
+import { generateFieldsFromZod } from "./src/utils/generateFieldsFromZod";
+import { importJsonSchema } from "./src/utils/importJsonSchema";
+import { exportJsonSchema } from "./src/utils/exportJsonSchema";
+import {
+  registerConditionOperator,
+  unregisterConditionOperator,
+  isConditionOperatorRegistered,
+  evaluateCondition,
+} from "./src/utils/conditionOperators";
 
 export * from "./src/interface/form.interface";
 export {
   useFormix,
+  useFieldOptions,
+  useSchemaFieldArray,
   FormixProvider,
   ThemeProvider,
   useTheme,
@@ -34,11 +77,46 @@ export {
   FormDescription,
   FormField,
   FormFlexFields,
+  FormFieldArray,
+  FormSection,
   FormFooter,
   FormHeader,
   FieldItem,
   FieldLabel,
   FormTitle,
+  FormStepIndicator,
+  FormStepNavigation,
   useFormField,
   FieldErrorMessage,
+  FormErrorMessage,
+  TextField,
+  TextareaField,
+  SelectField,
+  MultiSelectField,
+  TableSelectField,
+  RadioGroupField,
+  CheckboxField,
+  SwitchField,
+  SliderField,
+  DateField,
+  DateRangeField,
+  DateTimeField,
+  FileField,
+  OtpField,
+  ToggleGroupField,
+  registerFieldType,
+  unregisterFieldType,
+  resolveFieldType,
+  isFieldTypeRegistered,
+  fileValidation,
+  FormSubmissionError,
+  loadFormSchema,
+  serializeFormSchema,
+  generateFieldsFromZod,
+  importJsonSchema,
+  exportJsonSchema,
+  registerConditionOperator,
+  unregisterConditionOperator,
+  isConditionOperatorRegistered,
+  evaluateCondition,
 };
@@ -1,6 +1,5 @@
 import React from "react";
 import { z } from "zod";
-import { Input } from "./components/ui/input";
 import { Button } from "./components/ui/button";
 import {
   FormBody,
@@ -14,6 +13,7 @@ import {
 } from "./components/form";
 import { ISchemaFormProps } from "./interface/form.interface";
 import { ThemeProvider } from "./context/theme.provider";
+import { fileValidation } from "./utils/fileValidation";
 
 interface SignUp {
   username: string;
@@ -50,27 +50,6 @@ const App = () => {
           .string()
           .min(1, "Username is required")
           .max(20, "Username must not exceed 20 characters"),
-        render: ({
-          formDisabled,
-          formItem,
-          formMethods,
-          submitButtonLoading,
-        }) => (
-          <Input
-            type={formItem.type}
-            id={formItem.key}
-            disabled={formDisabled || submitButtonLoading}
-            style={{
-              width: "100%",
-              height: "10px",
-              border: "1px solid #ccc",
-              borderRadius: "5px",
-              padding: "10px",
-              margin: "5px 0",
-            }}
-            {...formMethods.register(formItem.key)}
-          />
-        ),
       },
       {
         key: "email",
@@ -84,27 +63,6 @@ const App = () => {
           .string()
           .email("Enter a valid email address")
           .min(1, "Email is required"),
-        render: ({
-          formDisabled,
-          formItem,
-          formMethods,
-          submitButtonLoading,
-        }) => (
-          <Input
-            type={formItem.type}
-            id={formItem.key}
-            disabled={formDisabled || submitButtonLoading}
-            style={{
-              width: "100%",
-              height: "10px",
-              border: "1px solid #ccc",
-              borderRadius: "5px",
-              padding: "10px",
-              margin: "5px 0",
-            }}
-            {...formMethods.register(formItem.key)}
-          />
-        ),
       },
       {
         key: "address",
@@ -117,27 +75,6 @@ const App = () => {
         validations: z
           .string()
           .min(10, "Address should be at least 10 characters"),
-        render: ({
-          formDisabled,
-          formItem,
-          formMethods,
-          submitButtonLoading,
-        }) => (
-          <Input
-            type={formItem.type}
-            id={formItem.key}
-            disabled={formDisabled || submitButtonLoading}
-            style={{
-              width: "100%",
-              height: "10px",
-              border: "1px solid #ccc",
-              borderRadius: "5px",
-              padding: "10px",
-              margin: "5px 0",
-            }}
-            {...formMethods.register(formItem.key)}
-          />
-        ),
       },
       {
         key: "phone",
@@ -150,27 +87,6 @@ const App = () => {
         validations: z
           .string()
           .regex(/^\+?(\d.*){10,}$/, "Enter a valid phone number"),
-        render: ({
-          formDisabled,
-          formItem,
-          formMethods,
-          submitButtonLoading,
-        }) => (
-          <Input
-            type={formItem.type}
-            id={formItem.key}
-            disabled={formDisabled || submitButtonLoading}
-            style={{
-              width: "100%",
-              height: "10px",
-              border: "1px solid #ccc",
-              borderRadius: "5px",
-              padding: "10px",
-              margin: "5px 0",
-            }}
-            {...formMethods.register(formItem.key)}
-          />
-        ),
       },
       {
         key: "password",
@@ -198,27 +114,71 @@ const App = () => {
             operator: "!==",
           },
         ],
-        render: ({
-          formDisabled,
-          formItem,
-          formMethods,
-          submitButtonLoading,
-        }) => (
-          <Input
-            type={formItem.type}
-            id={formItem.key}
-            disabled={formDisabled || submitButtonLoading}
-            style={{
-              width: "100%",
-              height: "10px",
-              border: "1px solid #ccc",
-              borderRadius: "5px",
-              padding: "10px",
-              margin: "5px 0",
-            }}
-            {...formMethods.register(formItem.key)}
-          />
-        ),
+      },
+      {
+        key: "gender",
+        label: "Gender",
+        type: "radio group",
+        options: [
+          { label: "Male", value: "male" },
+          { label: "Female", value: "female" },
+          { label: "Other", value: "other" },
+        ],
+        validations: z.string().min(1, "Select an option"),
+      },
+      {
+        key: "date",
+        label: "Date of Birth",
+        type: "date",
+        validations: z
+          .date({ required_error: "Date of birth is required" })
+          .max(new Date(), "Date of birth cannot be in the future"),
+      },
+      {
+        key: "year",
+        label: "Year of Experience",
+        type: "slider",
+        defaultValue: 0,
+        validations: z.number().min(0).max(40),
+      },
+      {
+        key: "expertise",
+        label: "Expertise",
+        description: "Pick up to three areas.",
+        type: "multi-select",
+        placeholder: "Select your expertise",
+        defaultValue: [],
+        options: [
+          { label: "Frontend", value: "frontend" },
+          { label: "Backend", value: "backend" },
+          { label: "DevOps", value: "devops" },
+          { label: "Design", value: "design" },
+          { label: "Data", value: "data" },
+        ],
+        validations: z
+          .array(z.string())
+          .min(1, "Select at least one area")
+          .max(3, "Select at most three areas"),
+      },
+      {
+        key: "file",
+        label: "Resume",
+        type: "file",
+        validations: fileValidation({
+          maxSize: 5 * 1024 * 1024,
+          accept: ["application/pdf", ".docx"],
+        }),
+        fileConfig: { accept: "application/pdf,.docx" },
+      },
+      {
+        key: "terms",
+        label: "Accept Terms",
+        description: "You must accept the terms and conditions.",
+        type: "boolean",
+        defaultValue: false,
+        validations: z.literal(true, {
+          errorMap: () => ({ message: "You must accept the terms" }),
+        }),
       },
     ],
     defaultValues: {
@@ -0,0 +1,133 @@
+import { FieldValues, Path, UseFormReturn } from "react-hook-form";
+import { IFieldSchema } from "@/interface/form.interface";
+import { useSchemaFieldArray } from "@/hooks/useSchemaFieldArray";
+
+/**
+ * Unstyled rendering of a repeatable field group, used by `renderFlexFields`.
+ * Sub-fields use their `render` function when provided and a native input otherwise.
+ */
+const BareFieldArray = <TFieldValues extends FieldValues = FieldValues>({
+  formItem,
+  formMethods,
+  formDisabled,
+  disabled,
+  enableConditionalRendering,
+  submitButtonLoading,
+}: {
+  formItem: IFieldSchema<TFieldValues>;
+  formMethods: UseFormReturn<TFieldValues>;
+  formDisabled: boolean;
+  /** Whether the group is disabled, by itself or its conditions. */
+  disabled: boolean;
+  /** Whether sub-fields are shown according to their display conditions. */
+  enableConditionalRendering: boolean;
+  submitButtonLoading: boolean;
+}) => {
+  const {
+    items,
+    addItem,
+    removeItem,
+    moveItem,
+    canAdd,
+    canRemove,
+    getItemFieldName,
+    isItemFieldVisible,
+    getItemFieldStates,
+    errorMessage,
+  } = useSchemaFieldArray(formItem, formMethods, enableConditionalRendering);
+  const {
+    addButtonText = "Add",
+    itemLabel = formItem.label,
+    reorderable = true,
+  } = formItem.arrayConfig ?? {};
+
+  return (
+    <fieldset disabled={formDisabled || disabled}>
+      {formItem.label && <legend>{formItem.label}</legend>}
+      {items.map((item, index) => (
+        <div key={item.id}>
+          <span>{itemLabel ? `${itemLabel} ${index + 1}` : index + 1}</span>
+          {reorderable && (
+            <>
+              <button
+                type="button"
+                disabled={index === 0}
+                onClick={() => moveItem(index, index - 1)}
+              >
+                Up
+              </button>
+              <button
+                type="button"
+                disabled={index === items.length - 1}
+                onClick={() => moveItem(index, index + 1)}
+              >
+                Down
+              </button>
+            </>
+          )}
+          <button
+            type="button"
+            disabled={!canRemove}
+            onClick={() => removeItem(index)}
+          >
+            Remove
+          </button>
+          {(formItem.fields ?? [])
+            .filter((subField) => isItemFieldVisible(index, subField))
+            .map((subField) => {
+              const itemField = {
+                ...subField,
+                key: getItemFieldName(index, subField.key),
+              } as IFieldSchema<TFieldValues>;
+              const states = getItemFieldStates(index, subField);
+              return (
+                <div
+                  key={subField.key}
+                  style={subField.style}
+                  className={subField.className}
+                >
+                  {itemField.fields ? (
+                    <BareFieldArray
+                      formItem={itemField}
+                      formMethods={formMethods}
+                      formDisabled={formDisabled}
+                      disabled={states.disabled}
+                      enableConditionalRendering={enableConditionalRendering}
+                      submitButtonLoading={submitButtonLoading}
+                    />
+                  ) : itemField.render ? (
+                    itemField.render({
+                      formMethods,
+                      formItem: itemField,
+                      formErrors: formMethods.formState.errors,
+                      formDisabled,
+                      disabled: formDisabled || states.disabled,
+                      readOnly: states.readOnly,
+                      required: states.required,
+                      submitButtonLoading,
+                    })
+                  ) : (
+                    <input
+                      placeholder={itemField.placeholder}
+                      disabled={formDisabled || states.disabled}
+                      readOnly={states.readOnly}
+                      aria-required={states.required}
+                      {...formMethods.register(
+                        itemField.key as Path<TFieldValues>
+                      )}
+                    />
+                  )}
+                </div>
+              );
+            })}
+        </div>
+      ))}
+      {errorMessage && <p>{errorMessage}</p>}
+      <button type="button" disabled={!canAdd} onClick={addItem}>
+        {addButtonText}
+      </button>
+    </fieldset>
+  );
+};
+
+export { BareFieldArray };
@@ -0,0 +1,27 @@
+import { FieldValues } from "react-hook-form";
+import { FieldTypeProps } from "@/interface/form.interface";
+import { Checkbox } from "@/components/ui/checkbox";
+import { getControlProps } from "@/utils/getControlProps";
+
+/**
+ * Field type for "boolean" and "checkbox", rendering a `<Checkbox>` bound to a boolean value.
+ */
+const CheckboxField = <TFieldValues extends FieldValues = FieldValues>(
+  props: FieldTypeProps<TFieldValues>
+) => {
+  const { field, disabled } = props;
+
+  return (
+    <Checkbox
+      {...getControlProps(props)}
+      ref={field.ref}
+      name={field.name}
+      checked={!!field.value}
+      onCheckedChange={(checked) => field.onChange(checked === true)}
+      onBlur={field.onBlur}
+      disabled={disabled}
+    />
+  );
+};
+
+export { CheckboxField };
@@ -0,0 +1,78 @@
+import * as React from "react";
+import { FieldValues } from "react-hook-form";
+import { format } from "date-fns";
+import { CalendarIcon } from "lucide-react";
+import { FieldTypeProps } from "@/interface/form.interface";
+import { cn } from "@/lib/utils";
+import { Button } from "@/components/ui/button";
+import { Calendar } from "@/components/ui/calendar";
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from "@/components/ui/popover";
+import { getControlProps } from "@/utils/getControlProps";
+import { getDisabledDays } from "@/utils/getDisabledDays";
+import { toDate } from "@/utils/toDate";
+
+/**
+ * Field type for "date", rendering a `<Calendar>` in a `<Popover>` bound to a Date value.
+ * Days outside the ZodDate `.min()` / `.max()` or rejected by its refinements are disabled.
+ */
+const DateField = <TFieldValues extends FieldValues = FieldValues>(
+  props: FieldTypeProps<TFieldValues>
+) => {
+  const { field, formItem, disabled } = props;
+  const { locale, displayFormat = "PPP" } = formItem.dateConfig ?? {};
+  const [open, setOpen] = React.useState(false);
+  const value = toDate(field.value);
+  const disabledDays = React.useMemo(
+    () => getDisabledDays(formItem.validations, true),
+    [formItem.validations]
+  );
+
+  return (
+    <Popover
+      open={open}
+      onOpenChange={(isOpen) => {
+        setOpen(isOpen);
+        if (!isOpen) field.onBlur();
+      }}
+    >
+      <PopoverTrigger asChild>
+        <Button
+          {...getControlProps(props)}
+          ref={field.ref}
+          type="button"
+          variant="outline"
+          disabled={disabled}
+          className={cn(
+            "w-full justify-start text-left font-normal",
+            !value && "text-muted-foreground"
+          )}
+        >
+          <CalendarIcon className="mr-2 h-4 w-4" />
+          {value
+            ? format(value, displayFormat, { locale })
+            : formItem.placeholder ?? "Pick a date"}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-auto p-0" align="start">
+        <Calendar
+          mode="single"
+          selected={value}
+          defaultMonth={value}
+          onSelect={(date) => {
+            field.onChange(date);
+            setOpen(false);
+          }}
+          disabled={disabledDays}
+          locale={locale}
+          initialFocus
+        />
+      </PopoverContent>
+    </Popover>
+  );
+};
+
+export { DateField };
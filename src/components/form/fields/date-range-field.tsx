@@ -0,0 +1,91 @@
+import * as React from "react";
+import { FieldValues } from "react-hook-form";
+import { format } from "date-fns";
+import { CalendarIcon } from "lucide-react";
+import { ZodFirstPartyTypeKind } from "zod";
+import { DateRangeValue, FieldTypeProps } from "@/interface/form.interface";
+import { cn } from "@/lib/utils";
+import { Button } from "@/components/ui/button";
+import { Calendar } from "@/components/ui/calendar";
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from "@/components/ui/popover";
+import { getControlProps } from "@/utils/getControlProps";
+import { getDisabledDays } from "@/utils/getDisabledDays";
+import { unwrapZodType } from "@/utils/getZodConstraints";
+import { toDate } from "@/utils/toDate";
+
+/**
+ * Field type for "date-range", rendering a two-month range `<Calendar>` bound to a `{ from, to }` value.
+ * Disabled days are read from the `from` date of a `z.object({ from, to })` validation.
+ */
+const DateRangeField = <TFieldValues extends FieldValues = FieldValues>(
+  props: FieldTypeProps<TFieldValues>
+) => {
+  const { field, formItem, disabled } = props;
+  const { locale, displayFormat = "PPP" } = formItem.dateConfig ?? {};
+  const [open, setOpen] = React.useState(false);
+  const value: DateRangeValue = {
+    from: toDate(field.value?.from),
+    to: toDate(field.value?.to),
+  };
+
+  const disabledDays = React.useMemo(() => {
+    const inner = formItem.validations && unwrapZodType(formItem.validations);
+    return getDisabledDays(
+      inner?._def.typeName === ZodFirstPartyTypeKind.ZodObject
+        ? inner._def.shape().from
+        : undefined,
+      true
+    );
+  }, [formItem.validations]);
+
+  const formatDate = (date: Date) => format(date, displayFormat, { locale });
+
+  return (
+    <Popover
+      open={open}
+      onOpenChange={(isOpen) => {
+        setOpen(isOpen);
+        if (!isOpen) field.onBlur();
+      }}
+    >
+      <PopoverTrigger asChild>
+        <Button
+          {...getControlProps(props)}
+          ref={field.ref}
+          type="button"
+          variant="outline"
+          disabled={disabled}
+          className={cn(
+            "w-full justify-start text-left font-normal",
+            !value.from && "text-muted-foreground"
+          )}
+        >
+          <CalendarIcon className="mr-2 h-4 w-4" />
+          {value.from
+            ? value.to
+              ? `${formatDate(value.from)} - ${formatDate(value.to)}`
+              : formatDate(value.from)
+            : formItem.placeholder ?? "Pick a date range"}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-auto p-0" align="start">
+        <Calendar
+          mode="range"
+          selected={value.from ? { from: value.from, to: value.to } : undefined}
+          defaultMonth={value.from}
+          onSelect={(range) => field.onChange(range)}
+          disabled={disabledDays}
+          locale={locale}
+          numberOfMonths={2}
+          initialFocus
+        />
+      </PopoverContent>
+    </Popover>
+  );
+};
+
+export { DateRangeField };
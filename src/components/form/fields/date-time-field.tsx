@@ -0,0 +1,104 @@
+import * as React from "react";
+import { FieldValues } from "react-hook-form";
+import { format } from "date-fns";
+import { CalendarIcon } from "lucide-react";
+import { FieldTypeProps } from "@/interface/form.interface";
+import { cn } from "@/lib/utils";
+import { Button } from "@/components/ui/button";
+import { Calendar } from "@/components/ui/calendar";
+import { Input } from "@/components/ui/input";
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from "@/components/ui/popover";
+import { getControlProps } from "@/utils/getControlProps";
+import { getDisabledDays } from "@/utils/getDisabledDays";
+import { toDate } from "@/utils/toDate";
+
+/**
+ * Field type for "datetime", rendering a `<Calendar>` and a time input bound to a Date value.
+ * Picking a day keeps the selected time, and days outside the ZodDate `.min()` / `.max()` are disabled.
+ */
+const DateTimeField = <TFieldValues extends FieldValues = FieldValues>(
+  props: FieldTypeProps<TFieldValues>
+) => {
+  const { field, formItem, disabled } = props;
+  const { locale, displayFormat = "PPP p" } = formItem.dateConfig ?? {};
+  const [open, setOpen] = React.useState(false);
+  const value = toDate(field.value);
+  const disabledDays = React.useMemo(
+    () => getDisabledDays(formItem.validations),
+    [formItem.validations]
+  );
+
+  const handleDaySelect = (day?: Date) => {
+    if (!day) {
+      field.onChange(undefined);
+      return;
+    }
+    const next = new Date(day);
+    if (value) {
+      next.setHours(value.getHours(), value.getMinutes(), 0, 0);
+    }
+    field.onChange(next);
+  };
+
+  const handleTimeChange = (time: string) => {
+    const [hours, minutes] = time.split(":").map(Number);
+    if (isNaN(hours) || isNaN(minutes)) return;
+    const next = value ? new Date(value) : new Date();
+    next.setHours(hours, minutes, 0, 0);
+    field.onChange(next);
+  };
+
+  return (
+    <Popover
+      open={open}
+      onOpenChange={(isOpen) => {
+        setOpen(isOpen);
+        if (!isOpen) field.onBlur();
+      }}
+    >
+      <PopoverTrigger asChild>
+        <Button
+          {...getControlProps(props)}
+          ref={field.ref}
+          type="button"
+          variant="outline"
+          disabled={disabled}
+          className={cn(
+            "w-full justify-start text-left font-normal",
+            !value && "text-muted-foreground"
+          )}
+        >
+          <CalendarIcon className="mr-2 h-4 w-4" />
+          {value
+            ? format(value, displayFormat, { locale })
+            : formItem.placeholder ?? "Pick a date and time"}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-auto p-0" align="start">
+        <Calendar
+          mode="single"
+          selected={value}
+          defaultMonth={value}
+          onSelect={handleDaySelect}
+          disabled={disabledDays}
+          locale={locale}
+          initialFocus
+        />
+        <div className="border-t p-3">
+          <Input
+            type="time"
+            aria-label="Time"
+            value={value ? format(value, "HH:mm") : ""}
+            onChange={(event) => handleTimeChange(event.target.value)}
+          />
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+};
+
+export { DateTimeField };
@@ -0,0 +1,218 @@
+import * as React from "react";
+import { FieldValues } from "react-hook-form";
+import { FileIcon, Upload, X } from "lucide-react";
+import { ZodFirstPartyTypeKind } from "zod";
+import { FieldTypeProps } from "@/interface/form.interface";
+import { cn } from "@/lib/utils";
+import { getControlProps } from "@/utils/getControlProps";
+import { unwrapZodType } from "@/utils/getZodConstraints";
+import { formatBytes } from "@/utils/fileValidation";
+
+/**
+ * Field type for "file", rendering a drag-and-drop zone bound to a `File`, or a `File[]` for multiple files.
+ * Image files get a preview, and `fileConfig.onUpload` is called for each added file with a progress callback.
+ * Size, MIME type and count limits are validated by the field's `fileValidation`.
+ */
+const FileField = <TFieldValues extends FieldValues = FieldValues>(
+  props: FieldTypeProps<TFieldValues>
+) => {
+  const { field, formItem, disabled } = props;
+  const { accept, showPreviews = true, onUpload } = formItem.fileConfig ?? {};
+  const multiple =
+    formItem.fileConfig?.multiple ??
+    (!!formItem.validations &&
+      unwrapZodType(formItem.validations)._def.typeName ===
+        ZodFirstPartyTypeKind.ZodArray);
+
+  const inputRef = React.useRef<HTMLInputElement | null>(null);
+  const [dragging, setDragging] = React.useState(false);
+  const [progress, setProgress] = React.useState<Map<File, number>>(new Map());
+  const [uploadErrors, setUploadErrors] = React.useState<Map<File, string>>(
+    new Map()
+  );
+
+  const value: unknown = field.value;
+  const files: File[] = React.useMemo(
+    () =>
+      multiple
+        ? Array.isArray(value)
+          ? value
+          : []
+        : value instanceof File
+        ? [value]
+        : [],
+    [value, multiple]
+  );
+
+  const previews = React.useMemo(
+    () =>
+      new Map(
+        showPreviews
+          ? files
+              .filter((file) => file.type.startsWith("image/"))
+              .map((file) => [file, URL.createObjectURL(file)])
+          : []
+      ),
+    [files, showPreviews]
+  );
+
+  React.useEffect(
+    () => () => previews.forEach((url) => URL.revokeObjectURL(url)),
+    [previews]
+  );
+
+  const uploadFile = async (file: File) => {
+    if (!onUpload) return;
+    const updateProgress = (value: number) =>
+      setProgress((current) => new Map(current).set(file, value));
+    updateProgress(0);
+    try {
+      await onUpload(file, updateProgress);
+      updateProgress(100);
+    } catch (error) {
+      console.error("Error during file upload:", error);
+      setUploadErrors((current) =>
+        new Map(current).set(
+          file,
+          error instanceof Error ? error.message : "Upload failed"
+        )
+      );
+    }
+  };
+
+  const addFiles = (added: File[]) => {
+    if (!added.length) return;
+    const next = multiple ? [...files, ...added] : added.slice(0, 1);
+    field.onChange(multiple ? next : next[0]);
+    field.onBlur();
+    next.filter((file) => !files.includes(file)).forEach(uploadFile);
+  };
+
+  const removeFile = (file: File) => {
+    const next = files.filter((item) => item !== file);
+    field.onChange(multiple ? next : undefined);
+    field.onBlur();
+  };
+
+  const openFileDialog = () => {
+    if (!disabled) inputRef.current?.click();
+  };
+
+  return (
+    <div className="space-y-2">
+      <div
+        {...getControlProps(props)}
+        role="button"
+        tabIndex={disabled ? -1 : 0}
+        aria-disabled={disabled}
+        onClick={openFileDialog}
+        onKeyDown={(event) => {
+          if (event.key === "Enter" || event.key === " ") {
+            event.preventDefault();
+            openFileDialog();
+          }
+        }}
+        onDragOver={(event) => {
+          event.preventDefault();
+          if (!disabled) setDragging(true);
+        }}
+        onDragLeave={() => setDragging(false)}
+        onDrop={(event) => {
+          event.preventDefault();
+          setDragging(false);
+          if (!disabled) addFiles(Array.from(event.dataTransfer.files));
+        }}
+        className={cn(
+          "flex cursor-pointer flex-col items-center justify-center gap-2 rounded-md border-2 border-dashed border-input px-4 py-6 text-center text-sm text-muted-foreground ring-offset-background transition-colors focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2",
+          dragging && "border-primary bg-accent",
+          disabled && "cursor-not-allowed opacity-50"
+        )}
+      >
+        <Upload className="h-6 w-6" />
+        <span>
+          {formItem.placeholder ??
+            `Drag and drop ${
+              multiple ? "files" : "a file"
+            } here, or click to browse`}
+        </span>
+        <input
+          ref={(element) => {
+            inputRef.current = element;
+            field.ref(element);
+          }}
+          type="file"
+          name={field.name}
+          accept={accept}
+          multiple={multiple}
+          disabled={disabled}
+          className="hidden"
+          onChange={(event) => {
+            addFiles(Array.from(event.target.files ?? []));
+            event.target.value = "";
+          }}
+        />
+      </div>
+      {files.length > 0 && (
+        <ul className="space-y-2">
+          {files.map((file, index) => {
+            const preview = previews.get(file);
+            const fileProgress = progress.get(file);
+            const uploadError = uploadErrors.get(file);
+            return (
+              <li
+                key={`${file.name}-${index}`}
+                className="flex items-center gap-3 rounded-md border p-2 text-sm"
+              >
+                {preview ? (
+                  <img
+                    src={preview}
+                    alt={file.name}
+                    className="h-10 w-10 rounded object-cover"
+                  />
+                ) : (
+                  <FileIcon className="h-10 w-10 p-2 text-muted-foreground" />
+                )}
+                <div className="min-w-0 flex-1">
+                  <p className="truncate font-medium">{file.name}</p>
+                  <p className="text-xs text-muted-foreground">
+                    {formatBytes(file.size)}
+                  </p>
+                  {uploadError ? (
+                    <p className="text-xs text-destructive">{uploadError}</p>
+                  ) : (
+                    fileProgress !== undefined &&
+                    fileProgress < 100 && (
+                      <div
+                        role="progressbar"
+                        aria-valuemin={0}
+                        aria-valuemax={100}
+                        aria-valuenow={fileProgress}
+                        className="mt-1 h-1 w-full overflow-hidden rounded-full bg-secondary"
+                      >
+                        <div
+                          className="h-full bg-primary transition-all"
+                          style={{ width: `${fileProgress}%` }}
+                        />
+                      </div>
+                    )
+                  )}
+                </div>
+                <button
+                  type="button"
+                  aria-label={`Remove ${file.name}`}
+                  disabled={disabled}
+                  onClick={() => removeFile(file)}
+                  className="rounded-sm opacity-70 hover:opacity-100 disabled:pointer-events-none"
+                >
+                  <X className="h-4 w-4" />
+                </button>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export { FileField };
@@ -0,0 +1,21 @@
+export { TextField } from "./text-field";
+export { TextareaField } from "./textarea-field";
+export { SelectField } from "./select-field";
+export { MultiSelectField } from "./multi-select-field";
+export { TableSelectField } from "./table-select-field";
+export { RadioGroupField } from "./radio-group-field";
+export { CheckboxField } from "./checkbox-field";
+export { SwitchField } from "./switch-field";
+export { SliderField } from "./slider-field";
+export { DateField } from "./date-field";
+export { DateRangeField } from "./date-range-field";
+export { DateTimeField } from "./date-time-field";
+export { FileField } from "./file-field";
+export { OtpField } from "./otp-field";
+export { ToggleGroupField } from "./toggle-group-field";
+export {
+  registerFieldType,
+  unregisterFieldType,
+  resolveFieldType,
+  isFieldTypeRegistered,
+} from "./registry";
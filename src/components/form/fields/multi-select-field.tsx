@@ -0,0 +1,151 @@
+import * as React from "react";
+import { FieldValues } from "react-hook-form";
+import { ChevronsUpDown, X } from "lucide-react";
+import { FieldTypeProps } from "@/interface/form.interface";
+import { cn } from "@/lib/utils";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from "@/components/ui/popover";
+import { useFieldOptions } from "@/hooks/useFieldOptions";
+import { getControlProps } from "@/utils/getControlProps";
+import { getZodConstraints } from "@/utils/getZodConstraints";
+import { OptionList } from "./option-list";
+
+/**
+ * Field type for "multi-select", rendering a searchable option list bound to an array of option values.
+ * Options may be static or loaded page by page from an async loader.
+ * Selected values are shown as removable chips, and the maximum number of selections is read from the
+ * field's ZodArray validation (`.max()` / `.length()`).
+ */
+const MultiSelectField = <TFieldValues extends FieldValues = FieldValues>(
+  props: FieldTypeProps<TFieldValues>
+) => {
+  const { field, formItem, formMethods, disabled } = props;
+  const [open, setOpen] = React.useState(false);
+  const fieldOptions = useFieldOptions(formItem, formMethods);
+  const { options: filteredOptions, search, setSearch } = fieldOptions;
+
+  const { maxItems } = getZodConstraints(formItem.validations);
+  const selected: Array<string | number> = Array.isArray(field.value)
+    ? field.value
+    : [];
+  const limitReached = maxItems !== undefined && selected.length >= maxItems;
+
+  const toggleOption = (value: string | number) => {
+    if (selected.includes(value)) {
+      field.onChange(selected.filter((item) => item !== value));
+    } else if (!limitReached) {
+      field.onChange([...selected, value]);
+    }
+  };
+
+  const selectAll = () => {
+    const additions = filteredOptions
+      .map((option) => option.value)
+      .filter((value) => !selected.includes(value));
+    const available =
+      maxItems === undefined ? additions.length : maxItems - selected.length;
+    field.onChange([...selected, ...additions.slice(0, available)]);
+  };
+
+  const clearAll = () => field.onChange([]);
+
+  return (
+    <div className="space-y-2">
+      <Popover
+        open={open}
+        onOpenChange={(isOpen) => {
+          setOpen(isOpen);
+          if (!isOpen) {
+            setSearch("");
+            field.onBlur();
+          }
+        }}
+      >
+        <PopoverTrigger asChild>
+          <Button
+            {...getControlProps(props)}
+            ref={field.ref}
+            type="button"
+            variant="outline"
+            role="combobox"
+            aria-expanded={open}
+            disabled={disabled}
+            className="w-full justify-between font-normal"
+          >
+            <span className={cn(!selected.length && "text-muted-foreground")}>
+              {selected.length
+                ? `${selected.length}${
+                    maxItems !== undefined ? ` / ${maxItems}` : ""
+                  } selected`
+                : formItem.placeholder ?? "Select options"}
+            </span>
+            <ChevronsUpDown className="ml-2 h-4 w-4 shrink-0 opacity-50" />
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent className="w-[--radix-popover-trigger-width] p-2">
+          <Input
+            value={search}
+            onChange={(event) => setSearch(event.target.value)}
+            placeholder="Search..."
+            className="mb-2 h-9"
+          />
+          <div className="mb-2 flex justify-between">
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              onClick={selectAll}
+              disabled={limitReached || !filteredOptions.length}
+            >
+              Select all
+            </Button>
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              onClick={clearAll}
+              disabled={!selected.length}
+            >
+              Clear
+            </Button>
+          </div>
+          <OptionList
+            fieldOptions={fieldOptions}
+            multiple
+            isSelected={(value) => selected.includes(value)}
+            isDisabled={(value) => !selected.includes(value) && limitReached}
+            onSelect={toggleOption}
+          />
+        </PopoverContent>
+      </Popover>
+      {selected.length > 0 && (
+        <div className="flex flex-wrap gap-1">
+          {selected.map((value) => (
+            <span
+              key={value}
+              className="inline-flex items-center rounded-md bg-secondary px-2 py-0.5 text-xs font-medium text-secondary-foreground"
+            >
+              {fieldOptions.getOptionLabel(value) ?? value}
+              <button
+                type="button"
+                aria-label="Remove"
+                disabled={disabled}
+                onClick={() => toggleOption(value)}
+                className="ml-1 rounded-sm opacity-70 hover:opacity-100 disabled:pointer-events-none"
+              >
+                <X className="h-3 w-3" />
+              </button>
+            </span>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export { MultiSelectField };
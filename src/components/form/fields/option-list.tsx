@@ -0,0 +1,83 @@
+import { Check, Loader2 } from "lucide-react";
+import { FieldOption, UseFieldOptionsReturn } from "@/interface/form.interface";
+import { cn } from "@/lib/utils";
+import { Button } from "@/components/ui/button";
+
+/**
+ * Scrollable list of selectable options shared by the select and multi-select field types.
+ * Loads the next page of async options when scrolled to the bottom, and shows loading and error states.
+ */
+const OptionList = ({
+  fieldOptions,
+  multiple = false,
+  isSelected,
+  isDisabled,
+  onSelect,
+}: {
+  fieldOptions: UseFieldOptionsReturn;
+  multiple?: boolean;
+  isSelected: (value: FieldOption["value"]) => boolean;
+  isDisabled?: (value: FieldOption["value"]) => boolean;
+  onSelect: (value: FieldOption["value"]) => void;
+}) => {
+  const { options, loading, error, hasMore, loadMore, retry } = fieldOptions;
+
+  return (
+    <div
+      role="listbox"
+      aria-multiselectable={multiple}
+      aria-busy={loading}
+      className="max-h-60 overflow-y-auto"
+      onScroll={(event) => {
+        const { scrollTop, clientHeight, scrollHeight } = event.currentTarget;
+        if (hasMore && scrollTop + clientHeight >= scrollHeight - 24) {
+          loadMore();
+        }
+      }}
+    >
+      {options.map((option) => {
+        const selected = isSelected(option.value);
+        return (
+          <button
+            key={option.value}
+            type="button"
+            role="option"
+            aria-selected={selected}
+            disabled={isDisabled?.(option.value)}
+            onClick={() => onSelect(option.value)}
+            className="flex w-full items-center rounded-sm px-2 py-1.5 text-left text-sm hover:bg-accent hover:text-accent-foreground disabled:pointer-events-none disabled:opacity-50"
+          >
+            <Check
+              className={cn(
+                "mr-2 h-4 w-4",
+                selected ? "opacity-100" : "opacity-0"
+              )}
+            />
+            {option.label}
+          </button>
+        );
+      })}
+      {loading && (
+        <p className="flex items-center justify-center py-4 text-sm text-muted-foreground">
+          <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+          Loading...
+        </p>
+      )}
+      {!loading && error && (
+        <div className="flex flex-col items-center gap-2 py-4 text-sm text-destructive">
+          {error}
+          <Button type="button" variant="outline" size="sm" onClick={retry}>
+            Retry
+          </Button>
+        </div>
+      )}
+      {!loading && !error && !options.length && (
+        <p className="py-4 text-center text-sm text-muted-foreground">
+          No options found.
+        </p>
+      )}
+    </div>
+  );
+};
+
+export { OptionList };
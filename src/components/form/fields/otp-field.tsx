@@ -0,0 +1,92 @@
+import * as React from "react";
+import { FieldValues } from "react-hook-form";
+import {
+  REGEXP_ONLY_CHARS,
+  REGEXP_ONLY_DIGITS,
+  REGEXP_ONLY_DIGITS_AND_CHARS,
+} from "input-otp";
+import { FieldTypeProps, OtpFieldConfig } from "@/interface/form.interface";
+import {
+  InputOTP,
+  InputOTPGroup,
+  InputOTPSeparator,
+  InputOTPSlot,
+} from "@/components/ui/input-otp";
+import { useFormix } from "@/hooks/useFormix";
+import { getControlProps } from "@/utils/getControlProps";
+import { getZodConstraints } from "@/utils/getZodConstraints";
+
+const otpPatterns: Record<
+  NonNullable<OtpFieldConfig["pattern"]>,
+  { value: string; character: RegExp }
+> = {
+  numeric: { value: REGEXP_ONLY_DIGITS, character: /\d/ },
+  alphanumeric: { value: REGEXP_ONLY_DIGITS_AND_CHARS, character: /[a-z0-9]/i },
+  alphabetic: { value: REGEXP_ONLY_CHARS, character: /[a-z]/i },
+};
+
+/**
+ * Field type for "otp", rendering `<InputOTP>` slots bound to a string value.
+ * Pasted codes are stripped of characters outside the pattern (e.g. "123-456"), and with
+ * `otpConfig.autoSubmit` the form is submitted through `submitForm` once every slot is filled.
+ */
+const OtpField = <TFieldValues extends FieldValues = FieldValues>(
+  props: FieldTypeProps<TFieldValues>
+) => {
+  const { field, formItem, disabled } = props;
+  const { submitForm } = useFormix<TFieldValues>();
+  const { maxLength } = getZodConstraints(formItem.validations);
+  const {
+    length = maxLength ?? 6,
+    pattern = "numeric",
+    groups = [length],
+    autoSubmit = false,
+  } = formItem.otpConfig ?? {};
+  const { value: patternValue, character } = otpPatterns[pattern];
+
+  const handleComplete = () => {
+    if (autoSubmit) submitForm();
+  };
+
+  const handlePaste = (event: React.ClipboardEvent<HTMLInputElement>) => {
+    event.preventDefault();
+    const code = Array.from(event.clipboardData.getData("text"))
+      .filter((char) => character.test(char))
+      .join("")
+      .slice(0, length);
+    // A full code completes the input, which calls `onComplete`.
+    field.onChange(code);
+  };
+
+  let slotIndex = 0;
+
+  return (
+    <InputOTP
+      {...getControlProps(props)}
+      ref={field.ref}
+      name={field.name}
+      maxLength={length}
+      pattern={patternValue}
+      value={field.value ?? ""}
+      onChange={field.onChange}
+      onBlur={field.onBlur}
+      onComplete={handleComplete}
+      onPaste={handlePaste}
+      disabled={disabled}
+      autoComplete={formItem.autoComplete ?? "one-time-code"}
+    >
+      {groups.map((size, groupIndex) => (
+        <React.Fragment key={groupIndex}>
+          {groupIndex > 0 && <InputOTPSeparator />}
+          <InputOTPGroup>
+            {Array.from({ length: size }, () => slotIndex++).map((index) => (
+              <InputOTPSlot key={index} index={index} />
+            ))}
+          </InputOTPGroup>
+        </React.Fragment>
+      ))}
+    </InputOTP>
+  );
+};
+
+export { OtpField };
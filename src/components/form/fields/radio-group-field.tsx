@@ -0,0 +1,44 @@
+import { FieldValues } from "react-hook-form";
+import { FieldTypeProps } from "@/interface/form.interface";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Label } from "@/components/ui/label";
+import { useFieldOptions } from "@/hooks/useFieldOptions";
+import { getControlProps } from "@/utils/getControlProps";
+import { getOptionValue } from "@/utils/getOptionValue";
+
+/**
+ * Field type for "radio group", rendering one `<RadioGroupItem>` per option.
+ */
+const RadioGroupField = <TFieldValues extends FieldValues = FieldValues>(
+  props: FieldTypeProps<TFieldValues>
+) => {
+  const { field, formItem, formMethods, disabled } = props;
+  const { options } = useFieldOptions(formItem, formMethods);
+  const controlProps = getControlProps(props);
+
+  return (
+    <RadioGroup
+      {...controlProps}
+      ref={field.ref}
+      name={field.name}
+      value={field.value === undefined ? "" : String(field.value)}
+      onValueChange={(value) => field.onChange(getOptionValue(options, value))}
+      onBlur={field.onBlur}
+      disabled={disabled}
+    >
+      {options.map((option) => (
+        <div key={option.value} className="flex items-center space-x-2">
+          <RadioGroupItem
+            id={`${controlProps.id}-${option.value}`}
+            value={String(option.value)}
+          />
+          <Label htmlFor={`${controlProps.id}-${option.value}`}>
+            {option.label}
+          </Label>
+        </div>
+      ))}
+    </RadioGroup>
+  );
+};
+
+export { RadioGroupField };
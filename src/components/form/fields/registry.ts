@@ -0,0 +1,72 @@
+import { FieldValues } from "react-hook-form";
+import { FieldTypeComponent } from "@/interface/form.interface";
+import {
+  getRegisteredFieldType,
+  registerFieldType,
+} from "@/utils/fieldTypeRegistry";
+import { TextField } from "./text-field";
+import { TextareaField } from "./textarea-field";
+import { SelectField } from "./select-field";
+import { MultiSelectField } from "./multi-select-field";
+import { TableSelectField } from "./table-select-field";
+import { RadioGroupField } from "./radio-group-field";
+import { CheckboxField } from "./checkbox-field";
+import { SwitchField } from "./switch-field";
+import { DateField } from "./date-field";
+import { DateRangeField } from "./date-range-field";
+import { DateTimeField } from "./date-time-field";
+import { FileField } from "./file-field";
+import { OtpField } from "./otp-field";
+import { SliderField } from "./slider-field";
+import { ToggleGroupField } from "./toggle-group-field";
+
+/**
+ * The built-in field type components, registered by `IFieldSchema.type`.
+ * Types without an entry (text, email, password, number, ...) render with `TextField`.
+ */
+const builtInFieldTypes: [string, FieldTypeComponent<any>][] = [
+  ["textarea", TextareaField],
+  ["select", SelectField],
+  ["multi-select", MultiSelectField],
+  ["table-select", TableSelectField],
+  ["radio group", RadioGroupField],
+  ["boolean", CheckboxField],
+  ["checkbox", CheckboxField],
+  ["switch", SwitchField],
+  ["slider", SliderField],
+  ["date", DateField],
+  ["date-range", DateRangeField],
+  ["datetime", DateTimeField],
+  ["file", FileField],
+  ["otp", OtpField],
+  ["toggle group", ToggleGroupField],
+];
+
+builtInFieldTypes.forEach(([type, component]) =>
+  registerFieldType(type, component)
+);
+
+export {
+  registerFieldType,
+  unregisterFieldType,
+  isFieldTypeRegistered,
+} from "@/utils/fieldTypeRegistry";
+
+/**
+ * Resolves the component used to render a field type.
+ * @param {string} [type] - The field type name.
+ * @param {Record<string, FieldTypeComponent<TFieldValues>>} [fieldTypes] - Form-level field types, checked before the registry.
+ * @returns {FieldTypeComponent<TFieldValues>} - The component for the type, or `TextField` if none is registered.
+ */
+export const resolveFieldType = <TFieldValues extends FieldValues>(
+  type?: string,
+  fieldTypes?: Record<string, FieldTypeComponent<TFieldValues>>
+): FieldTypeComponent<TFieldValues> => {
+  if (!type) {
+    return TextField;
+  }
+  if (fieldTypes && Object.prototype.hasOwnProperty.call(fieldTypes, type)) {
+    return fieldTypes[type];
+  }
+  return getRegisteredFieldType<TFieldValues>(type) ?? TextField;
+};
@@ -0,0 +1,118 @@
+import * as React from "react";
+import { FieldValues } from "react-hook-form";
+import { ChevronsUpDown } from "lucide-react";
+import { FieldTypeProps } from "@/interface/form.interface";
+import { cn } from "@/lib/utils";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from "@/components/ui/popover";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useFieldOptions } from "@/hooks/useFieldOptions";
+import { getControlProps } from "@/utils/getControlProps";
+import { getOptionValue } from "@/utils/getOptionValue";
+import { OptionList } from "./option-list";
+
+/**
+ * Field type for "select", rendering a single-value `<Select>` of the field's options.
+ * When the options come from an async loader, a searchable combobox with infinite scrolling is rendered instead.
+ */
+const SelectField = <TFieldValues extends FieldValues = FieldValues>(
+  props: FieldTypeProps<TFieldValues>
+) => {
+  const { field, formItem, formMethods, disabled } = props;
+  const fieldOptions = useFieldOptions(formItem, formMethods);
+  const [open, setOpen] = React.useState(false);
+
+  if (fieldOptions.isAsync) {
+    const label =
+      field.value === undefined || field.value === null
+        ? undefined
+        : fieldOptions.getOptionLabel(field.value) ?? String(field.value);
+
+    return (
+      <Popover
+        open={open}
+        onOpenChange={(isOpen) => {
+          setOpen(isOpen);
+          if (!isOpen) {
+            fieldOptions.setSearch("");
+            field.onBlur();
+          }
+        }}
+      >
+        <PopoverTrigger asChild>
+          <Button
+            {...getControlProps(props)}
+            ref={field.ref}
+            type="button"
+            variant="outline"
+            role="combobox"
+            aria-expanded={open}
+            disabled={disabled}
+            className="w-full justify-between font-normal"
+          >
+            <span className={cn(!label && "text-muted-foreground")}>
+              {label ?? formItem.placeholder ?? "Select an option"}
+            </span>
+            <ChevronsUpDown className="ml-2 h-4 w-4 shrink-0 opacity-50" />
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent className="w-[--radix-popover-trigger-width] p-2">
+          <Input
+            value={fieldOptions.search}
+            onChange={(event) => fieldOptions.setSearch(event.target.value)}
+            placeholder="Search..."
+            className="mb-2 h-9"
+          />
+          <OptionList
+            fieldOptions={fieldOptions}
+            isSelected={(value) => value === field.value}
+            onSelect={(value) => {
+              field.onChange(value);
+              setOpen(false);
+              fieldOptions.setSearch("");
+            }}
+          />
+        </PopoverContent>
+      </Popover>
+    );
+  }
+
+  return (
+    <Select
+      name={field.name}
+      value={field.value === undefined ? "" : String(field.value)}
+      onValueChange={(value) =>
+        field.onChange(getOptionValue(fieldOptions.options, value))
+      }
+      disabled={disabled}
+    >
+      <SelectTrigger
+        {...getControlProps(props)}
+        ref={field.ref}
+        onBlur={field.onBlur}
+      >
+        <SelectValue placeholder={formItem.placeholder} />
+      </SelectTrigger>
+      <SelectContent>
+        {fieldOptions.options.map((option) => (
+          <SelectItem key={option.value} value={String(option.value)}>
+            {option.label}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+};
+
+export { SelectField };
@@ -0,0 +1,37 @@
+import { FieldValues } from "react-hook-form";
+import { FieldTypeProps } from "@/interface/form.interface";
+import { Slider } from "@/components/ui/slider";
+import { getControlProps } from "@/utils/getControlProps";
+import { getZodConstraints } from "@/utils/getZodConstraints";
+
+/**
+ * Field type for "slider", rendering a `<Slider>` bound to a number value.
+ * The range and step are read from the field's ZodNumber validation (defaults 0-100, step 1).
+ */
+const SliderField = <TFieldValues extends FieldValues = FieldValues>(
+  props: FieldTypeProps<TFieldValues>
+) => {
+  const { field, formItem, disabled } = props;
+  const {
+    min = 0,
+    max = 100,
+    step = 1,
+  } = getZodConstraints(formItem.validations);
+
+  return (
+    <Slider
+      {...getControlProps(props)}
+      ref={field.ref}
+      name={field.name}
+      min={min}
+      max={max}
+      step={step}
+      value={[typeof field.value === "number" ? field.value : min]}
+      onValueChange={([value]) => field.onChange(value)}
+      onBlur={field.onBlur}
+      disabled={disabled}
+    />
+  );
+};
+
+export { SliderField };
@@ -0,0 +1,27 @@
+import { FieldValues } from "react-hook-form";
+import { FieldTypeProps } from "@/interface/form.interface";
+import { Switch } from "@/components/ui/switch";
+import { getControlProps } from "@/utils/getControlProps";
+
+/**
+ * Field type for "switch", rendering a `<Switch>` bound to a boolean value.
+ */
+const SwitchField = <TFieldValues extends FieldValues = FieldValues>(
+  props: FieldTypeProps<TFieldValues>
+) => {
+  const { field, disabled } = props;
+
+  return (
+    <Switch
+      {...getControlProps(props)}
+      ref={field.ref}
+      name={field.name}
+      checked={!!field.value}
+      onCheckedChange={field.onChange}
+      onBlur={field.onBlur}
+      disabled={disabled}
+    />
+  );
+};
+
+export { SwitchField };
@@ -0,0 +1,237 @@
+import * as React from "react";
+import { FieldValues } from "react-hook-form";
+import { ArrowDown, ArrowUp, ArrowUpDown } from "lucide-react";
+import { FieldTypeProps, TableSelectColumn } from "@/interface/form.interface";
+import { cn } from "@/lib/utils";
+import { Input } from "@/components/ui/input";
+import { Checkbox } from "@/components/ui/checkbox";
+import { getControlProps } from "@/utils/getControlProps";
+
+/**
+ * Field type for "table-select", rendering the field's `data` rows as a selectable table.
+ * The stored value is the `tableConfig.valueKey` property of the selected row, or an array of them
+ * when `tableConfig.multiple` is set. Rows can be filtered by text and sorted by any sortable column.
+ */
+const TableSelectField = <TFieldValues extends FieldValues = FieldValues>(
+  props: FieldTypeProps<TFieldValues>
+) => {
+  const { field, formItem, disabled } = props;
+  const {
+    columns: configuredColumns,
+    valueKey = "id",
+    multiple = false,
+    filterable = true,
+    filterPlaceholder = "Filter...",
+  } = formItem.tableConfig ?? {};
+  const [filter, setFilter] = React.useState("");
+  const [sort, setSort] = React.useState<{
+    key: string;
+    direction: "asc" | "desc";
+  } | null>(null);
+
+  const rows = React.useMemo(() => formItem.data ?? [], [formItem.data]);
+  const columns: TableSelectColumn[] = React.useMemo(
+    () =>
+      configuredColumns ?? Object.keys(rows[0] ?? {}).map((key) => ({ key })),
+    [configuredColumns, rows]
+  );
+
+  const visibleRows = React.useMemo(() => {
+    const query = filter.trim().toLowerCase();
+    const filtered = query
+      ? rows.filter((row) =>
+          columns.some((column) =>
+            String(row[column.key] ?? "")
+              .toLowerCase()
+              .includes(query)
+          )
+        )
+      : rows;
+
+    if (!sort) {
+      return filtered;
+    }
+
+    const direction = sort.direction === "asc" ? 1 : -1;
+    return [...filtered].sort((a, b) => {
+      const left = a[sort.key];
+      const right = b[sort.key];
+      if (left === right) return 0;
+      if (left === undefined || left === null) return 1;
+      if (right === undefined || right === null) return -1;
+      if (typeof left === "number" && typeof right === "number") {
+        return (left - right) * direction;
+      }
+      return String(left).localeCompare(String(right)) * direction;
+    });
+  }, [rows, columns, filter, sort]);
+
+  const selected: unknown[] = multiple
+    ? Array.isArray(field.value)
+      ? field.value
+      : []
+    : field.value === undefined || field.value === null
+    ? []
+    : [field.value];
+
+  const toggleRow = (row: Record<string, any>) => {
+    const value = row[valueKey];
+    if (multiple) {
+      field.onChange(
+        selected.includes(value)
+          ? selected.filter((item) => item !== value)
+          : [...selected, value]
+      );
+    } else {
+      field.onChange(selected.includes(value) ? undefined : value);
+    }
+    field.onBlur();
+  };
+
+  const toggleSort = (key: string) =>
+    setSort((current) =>
+      current?.key !== key
+        ? { key, direction: "asc" }
+        : current.direction === "asc"
+        ? { key, direction: "desc" }
+        : null
+    );
+
+  const allVisibleSelected =
+    visibleRows.length > 0 &&
+    visibleRows.every((row) => selected.includes(row[valueKey]));
+
+  const toggleAllVisible = () => {
+    const visibleValues = visibleRows.map((row) => row[valueKey]);
+    field.onChange(
+      allVisibleSelected
+        ? selected.filter((value) => !visibleValues.includes(value))
+        : [
+            ...selected,
+            ...visibleValues.filter((value) => !selected.includes(value)),
+          ]
+    );
+    field.onBlur();
+  };
+
+  return (
+    <div className="space-y-2">
+      {filterable && (
+        <Input
+          value={filter}
+          onChange={(event) => setFilter(event.target.value)}
+          placeholder={filterPlaceholder}
+          disabled={disabled}
+          className="h-9"
+        />
+      )}
+      <div className="max-h-80 overflow-auto rounded-md border">
+        <table
+          {...getControlProps(props)}
+          ref={field.ref}
+          role="grid"
+          aria-multiselectable={multiple}
+          className="w-full caption-bottom text-sm"
+        >
+          <thead className="border-b">
+            <tr>
+              <th className="w-10 px-3 py-2">
+                {multiple && (
+                  <Checkbox
+                    aria-label="Select all rows"
+                    checked={allVisibleSelected}
+                    onCheckedChange={toggleAllVisible}
+                    disabled={disabled || !visibleRows.length}
+                  />
+                )}
+              </th>
+              {columns.map((column) => {
+                const sortable = column.sortable ?? true;
+                const SortIcon =
+                  sort?.key !== column.key
+                    ? ArrowUpDown
+                    : sort.direction === "asc"
+                    ? ArrowUp
+                    : ArrowDown;
+                return (
+                  <th
+                    key={column.key}
+                    aria-sort={
+                      sort?.key === column.key
+                        ? sort.direction === "asc"
+                          ? "ascending"
+                          : "descending"
+                        : undefined
+                    }
+                    className="px-3 py-2 text-left font-medium text-muted-foreground"
+                  >
+                    {sortable ? (
+                      <button
+                        type="button"
+                        onClick={() => toggleSort(column.key)}
+                        className="inline-flex items-center gap-1 hover:text-foreground"
+                      >
+                        {column.label ?? column.key}
+                        <SortIcon className="h-3 w-3" />
+                      </button>
+                    ) : (
+                      column.label ?? column.key
+                    )}
+                  </th>
+                );
+              })}
+            </tr>
+          </thead>
+          <tbody>
+            {visibleRows.length ? (
+              visibleRows.map((row) => {
+                const isSelected = selected.includes(row[valueKey]);
+                return (
+                  <tr
+                    key={String(row[valueKey])}
+                    aria-selected={isSelected}
+                    onClick={() => !disabled && toggleRow(row)}
+                    className={cn(
+                      "border-b transition-colors last:border-0",
+                      !disabled && "cursor-pointer hover:bg-muted/50",
+                      isSelected && "bg-muted"
+                    )}
+                  >
+                    <td className="px-3 py-2">
+                      <Checkbox
+                        aria-label="Select row"
+                        checked={isSelected}
+                        onClick={(event) => event.stopPropagation()}
+                        onCheckedChange={() => toggleRow(row)}
+                        disabled={disabled}
+                        className={cn(!multiple && "rounded-full")}
+                      />
+                    </td>
+                    {columns.map((column) => (
+                      <td key={column.key} className="px-3 py-2">
+                        {column.render
+                          ? column.render(row)
+                          : String(row[column.key] ?? "")}
+                      </td>
+                    ))}
+                  </tr>
+                );
+              })
+            ) : (
+              <tr>
+                <td
+                  colSpan={columns.length + 1}
+                  className="px-3 py-6 text-center text-muted-foreground"
+                >
+                  No rows found.
+                </td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export { TableSelectField };
@@ -0,0 +1,41 @@
+import { FieldValues } from "react-hook-form";
+import { FieldTypeProps } from "@/interface/form.interface";
+import { Input } from "@/components/ui/input";
+import { getControlProps } from "@/utils/getControlProps";
+
+/**
+ * Default field type, rendering an `<Input>` with the field's HTML input type.
+ * Number inputs are stored as numbers, or `undefined` while empty.
+ */
+const TextField = <TFieldValues extends FieldValues = FieldValues>(
+  props: FieldTypeProps<TFieldValues>
+) => {
+  const { field, formItem, disabled, readOnly } = props;
+  const isNumber = formItem.type === "number";
+
+  return (
+    <Input
+      {...getControlProps(props)}
+      ref={field.ref}
+      name={field.name}
+      value={field.value ?? ""}
+      onChange={(event) =>
+        field.onChange(
+          isNumber
+            ? event.target.value === ""
+              ? undefined
+              : event.target.valueAsNumber
+            : event.target.value
+        )
+      }
+      onBlur={field.onBlur}
+      disabled={disabled}
+      readOnly={readOnly}
+      placeholder={formItem.placeholder}
+      autoComplete={formItem.autoComplete}
+      type={formItem.type}
+    />
+  );
+};
+
+export { TextField };
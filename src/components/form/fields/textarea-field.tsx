@@ -0,0 +1,30 @@
+import { FieldValues } from "react-hook-form";
+import { FieldTypeProps } from "@/interface/form.interface";
+import { Textarea } from "@/components/ui/textarea";
+import { getControlProps } from "@/utils/getControlProps";
+
+/**
+ * Field type for "textarea", rendering a multi-line `<Textarea>`.
+ */
+const TextareaField = <TFieldValues extends FieldValues = FieldValues>(
+  props: FieldTypeProps<TFieldValues>
+) => {
+  const { field, formItem, disabled, readOnly } = props;
+
+  return (
+    <Textarea
+      {...getControlProps(props)}
+      ref={field.ref}
+      name={field.name}
+      value={field.value ?? ""}
+      onChange={field.onChange}
+      onBlur={field.onBlur}
+      disabled={disabled}
+      readOnly={readOnly}
+      placeholder={formItem.placeholder}
+      autoComplete={formItem.autoComplete}
+    />
+  );
+};
+
+export { TextareaField };
@@ -0,0 +1,38 @@
+import { FieldValues } from "react-hook-form";
+import { FieldTypeProps } from "@/interface/form.interface";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { useFieldOptions } from "@/hooks/useFieldOptions";
+import { getControlProps } from "@/utils/getControlProps";
+import { getOptionValue } from "@/utils/getOptionValue";
+
+/**
+ * Field type for "toggle group", rendering one `<ToggleGroupItem>` per option with a single selected value.
+ */
+const ToggleGroupField = <TFieldValues extends FieldValues = FieldValues>(
+  props: FieldTypeProps<TFieldValues>
+) => {
+  const { field, formItem, formMethods, disabled } = props;
+  const { options } = useFieldOptions(formItem, formMethods);
+
+  return (
+    <ToggleGroup
+      {...getControlProps(props)}
+      ref={field.ref}
+      type="single"
+      variant="outline"
+      className="justify-start"
+      value={field.value === undefined ? "" : String(field.value)}
+      onValueChange={(value) => field.onChange(getOptionValue(options, value))}
+      onBlur={field.onBlur}
+      disabled={disabled}
+    >
+      {options.map((option) => (
+        <ToggleGroupItem key={option.value} value={String(option.value)}>
+          {option.label}
+        </ToggleGroupItem>
+      ))}
+    </ToggleGroup>
+  );
+};
+
+export { ToggleGroupField };
@@ -7,17 +7,33 @@ import {
   FieldPath,
   FieldValues,
 } from "react-hook-form";
+import {
+  ArrowDown,
+  ArrowUp,
+  Check,
+  ChevronDown,
+  ChevronRight,
+  Plus,
+  Trash2,
+} from "lucide-react";
 
 import { cn } from "@/lib/utils";
+import { Button } from "@/components/ui/button";
 import { Label } from "@/components/ui/label";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import {
   FieldItemContextValue,
+  FieldSection,
+  FieldStates,
+  FieldTypeComponent,
+  FieldTypeProps,
   FormBodyProps,
   FormFieldContextValue,
   FormFlexFieldProps,
+  FormStepNavigationProps,
+  IFieldSchema,
   UseFormFieldReturn,
 } from "@/interface/form.interface";
-import { Input } from "../ui/input";
 import {
   Card,
   CardContent,
@@ -28,6 +44,12 @@ import {
 } from "../ui/card";
 import FormixProvider from "@/context/form.provider";
 import { useFormix } from "@/hooks";
+import { useSchemaFieldArray } from "@/hooks/useSchemaFieldArray";
+import { resolveFieldType } from "./fields";
+import { checkDisplayConditions } from "@/utils/checkDisplayConditions";
+import { getFieldStates } from "@/utils/getFieldStates";
+import { getErrorPaths } from "@/utils/getErrorPaths";
+import { includesFieldKey } from "@/utils/includesFieldKey";
 
 const FormixFormProvider = FormixProvider;
 
@@ -65,7 +87,7 @@ const useFormField = <
 >(): UseFormFieldReturn<TFieldValues, TName> => {
   const fieldContext = React.useContext(FormFieldContext);
   const itemContext = React.useContext(FieldItemContext);
-  const { formMethods } = useFormix();
+  const { formMethods, validatingFields } = useFormix();
   const { getFieldState, formState } = formMethods;
 
   if (!fieldContext) {
@@ -82,6 +104,8 @@ const useFormField = <
     fieldDescriptionId: `${id}-form-item-description`,
     fieldMessageId: `${id}-form-item-message`,
     ...fieldState,
+    isValidating:
+      fieldState.isValidating || validatingFields.has(fieldContext.name),
   };
 };
 
@@ -91,20 +115,14 @@ const FormBody = ({
   formProps,
   children,
 }: FormBodyProps) => {
-  const { handleOnSubmit, handleOnInvalidSubmit, formMethods } = useFormix();
+  const { submitForm } = useFormix();
   const Container = panel ? Card : "div";
 
   return (
     <FormBodyContext.Provider value={true}>
       <PanelContext.Provider value={panel}>
         <Container {...containerProps}>
-          <form
-            onSubmit={formMethods.handleSubmit(
-              handleOnSubmit,
-              handleOnInvalidSubmit
-            )}
-            {...formProps}
-          >
+          <form onSubmit={submitForm} {...formProps}>
             {children}
           </form>
         </Container>
@@ -192,6 +210,102 @@ const FormDescription = ({
   );
 };
 
+const FormStepIndicator = ({
+  className,
+  ...props
+}: React.HTMLAttributes<HTMLOListElement>) => {
+  useFormBodyContext();
+  const panel = React.useContext(PanelContext);
+  const { wizard } = useFormix();
+  const { steps, currentStepIndex, history, goToStep, isStepActive } = wizard;
+  // Skipped steps are left out, except those already visited.
+  const shownSteps = steps
+    .map((step, index) => ({ step, index }))
+    .filter(({ index }) => isStepActive(index) || history.includes(index));
+
+  if (!shownSteps.length) {
+    return null;
+  }
+
+  return (
+    <ol
+      className={cn(
+        "flex flex-wrap items-center gap-2",
+        panel && "px-6",
+        className
+      )}
+      {...props}
+    >
+      {shownSteps.map(({ step, index }, position) => {
+        const isCurrent = index === currentStepIndex;
+        const isCompleted = !isCurrent && history.includes(index);
+        return (
+          <li key={step.id} className="flex items-center gap-2">
+            <button
+              type="button"
+              onClick={() => goToStep(index)}
+              aria-current={isCurrent ? "step" : undefined}
+              className="flex items-center gap-2 text-sm"
+            >
+              <span
+                className={cn(
+                  "flex h-6 w-6 items-center justify-center rounded-full border text-xs font-medium",
+                  isCompleted &&
+                    "border-primary bg-primary text-primary-foreground",
+                  isCurrent && "border-primary text-primary",
+                  !isCurrent && !isCompleted && "text-muted-foreground"
+                )}
+              >
+                {isCompleted ? <Check className="h-3 w-3" /> : position + 1}
+              </span>
+              <span
+                className={cn(
+                  isCurrent ? "font-medium" : "text-muted-foreground"
+                )}
+              >
+                {step.title ?? step.id}
+              </span>
+            </button>
+            {position < shownSteps.length - 1 && (
+              <ChevronRight className="h-4 w-4 text-muted-foreground" />
+            )}
+          </li>
+        );
+      })}
+    </ol>
+  );
+};
+
+const FormStepNavigation = ({
+  backText = "Back",
+  nextText = "Next",
+  submitText = "Submit",
+  className,
+  ...props
+}: FormStepNavigationProps) => {
+  useFormBodyContext();
+  const { wizard, formDisabled, submitButtonLoading } = useFormix();
+
+  return (
+    <div
+      className={cn("flex w-full justify-between gap-2", className)}
+      {...props}
+    >
+      <Button
+        type="button"
+        variant="outline"
+        onClick={wizard.back}
+        disabled={wizard.isFirstStep}
+      >
+        {backText}
+      </Button>
+      <Button type="submit" disabled={formDisabled || submitButtonLoading}>
+        {wizard.isLastStep ? submitText : nextText}
+      </Button>
+    </div>
+  );
+};
+
 const FormFlexFields = <TFieldValues extends FieldValues = FieldValues>({
   fluid = false,
   style,
@@ -199,9 +313,119 @@ const FormFlexFields = <TFieldValues extends FieldValues = FieldValues>({
   columns = 1,
   gap = "16px",
 }: FormFlexFieldProps) => {
-  const { formMethods, formFields, formDisabled, submitButtonLoading } =
+  const { formFields, formTabs, activeTab, setActiveTab, formMethods, wizard } =
     useFormix<TFieldValues>();
-  const { control } = formMethods;
+  const layout = { fluid, columns, gap };
+
+  const stepFields = formFields.filter((formField) =>
+    wizard.isFieldInCurrentStep(formField.key)
+  );
+
+  if (!formTabs.length) {
+    return (
+      <FlexFieldBlocks
+        fields={stepFields}
+        style={style}
+        className={className}
+        {...layout}
+      />
+    );
+  }
+
+  const errorPaths = getErrorPaths(formMethods.formState.errors);
+  const tabs = formTabs
+    .map((tab) => ({
+      tab,
+      fields: stepFields.filter((formField) =>
+        includesFieldKey(tab.fields, formField.key)
+      ),
+    }))
+    .filter(({ fields }) => fields.length);
+  const untabbedFields = stepFields.filter((formField) =>
+    formTabs.every((tab) => !includesFieldKey(tab.fields, formField.key))
+  );
+
+  return (
+    <div style={style} className={cn("space-y-4", className)}>
+      {untabbedFields.length > 0 && (
+        <FlexFieldBlocks fields={untabbedFields} {...layout} />
+      )}
+      <Tabs value={activeTab} onValueChange={setActiveTab}>
+        <TabsList>
+          {tabs.map(({ tab, fields }) => {
+            const errorCount = fields.filter((formField) =>
+              errorPaths.some((path) => includesFieldKey([formField.key], path))
+            ).length;
+            return (
+              <TabsTrigger key={tab.id} value={tab.id}>
+                {tab.title}
+                {errorCount > 0 && (
+                  <span className="ml-2 rounded-full bg-destructive px-1.5 text-xs text-destructive-foreground">
+                    {errorCount}
+                  </span>
+                )}
+              </TabsTrigger>
+            );
+          })}
+        </TabsList>
+        {tabs.map(({ tab, fields }) => (
+          // Inactive tabs stay mounted so their fields keep registering and validating.
+          <TabsContent
+            key={tab.id}
+            value={tab.id}
+            forceMount
+            hidden={tab.id !== activeTab}
+          >
+            <FlexFieldBlocks fields={fields} {...layout} />
+          </TabsContent>
+        ))}
+      </Tabs>
+    </div>
+  );
+};
+
+const FlexFieldBlocks = <TFieldValues extends FieldValues = FieldValues>({
+  fields,
+  fluid,
+  columns,
+  gap,
+  style,
+  className,
+}: {
+  fields: IFieldSchema<TFieldValues>[];
+  fluid: boolean;
+  columns: number;
+  gap: string;
+  style?: React.CSSProperties;
+  className?: string;
+}) => {
+  const { formSections } = useFormix<TFieldValues>();
+
+  // Fields of a section are rendered together, where the first of them appears in the schema.
+  const blocks: Array<
+    | { formField: IFieldSchema<TFieldValues> }
+    | {
+        section: FieldSection<TFieldValues>;
+        fields: IFieldSchema<TFieldValues>[];
+      }
+  > = [];
+  fields.forEach((formField) => {
+    const section = formSections.find((item) =>
+      includesFieldKey(item.fields, formField.key)
+    );
+    if (!section) {
+      blocks.push({ formField });
+      return;
+    }
+    const block = blocks.find(
+      (item) => "section" in item && item.section === section
+    );
+    if (block && "section" in block) {
+      block.fields.push(formField);
+    } else {
+      blocks.push({ section, fields: [formField] });
+    }
+  });
 
   return (
     <div
@@ -216,62 +440,365 @@ const FormFlexFields = <TFieldValues extends FieldValues = FieldValues>({
       }}
       className={className}
     >
-      {formFields.map((formField, index) => (
-        <div
-          key={index}
-          style={
-            !fluid || formField.style
-              ? formField.style
-              : {
-                  maxWidth: "100%",
-                }
+      {blocks.map((block) =>
+        "section" in block ? (
+          <FormSection
+            key={block.section.id}
+            section={block.section}
+            fields={block.fields}
+            fluid={fluid}
+            columns={columns}
+            gap={gap}
+          />
+        ) : (
+          <FlexField
+            key={block.formField.key}
+            formField={block.formField}
+            fluid={fluid}
+          />
+        )
+      )}
+    </div>
+  );
+};
+
+const FlexField = <TFieldValues extends FieldValues = FieldValues>({
+  formField,
+  fluid,
+}: {
+  formField: IFieldSchema<TFieldValues>;
+  fluid: boolean;
+}) => (
+  <div
+    style={
+      !fluid || formField.style
+        ? formField.style
+        : {
+            maxWidth: "100%",
           }
-          className={formField.className}
-        >
-          <FormField
-            control={control}
-            name={formField.key}
-            render={({ field }) => (
-              <FieldItem>
-                <FieldLabel />
-                <FieldControl>
-                  {formField.render ? (
-                    formField.render({
-                      formDisabled: formDisabled,
-                      formErrors: formMethods.formState.errors,
-                      formItem: formField,
-                      formMethods: formMethods,
-                      submitButtonLoading: submitButtonLoading,
-                    })
+    }
+    className={formField.className}
+  >
+    {formField.fields ? (
+      <FormFieldArray formField={formField} />
+    ) : (
+      <SchemaField formField={formField} />
+    )}
+  </div>
+);
+
+const FormSection = <TFieldValues extends FieldValues = FieldValues>({
+  section,
+  fields,
+  fluid = false,
+  columns = 1,
+  gap = "16px",
+}: {
+  section: FieldSection<TFieldValues>;
+  fields: IFieldSchema<TFieldValues>[];
+  fluid?: boolean;
+  columns?: number;
+  gap?: string;
+}) => {
+  const { formMethods, enableConditionalRendering, conditionValues } =
+    useFormix<TFieldValues>();
+  const { errors, submitCount } = formMethods.formState;
+  const contentId = React.useId();
+  const [collapsed, setCollapsed] = React.useState(
+    !!section.collapsible && !!section.defaultCollapsed
+  );
+
+  const errorCount = fields.filter((formField) =>
+    getErrorPaths(errors).some((path) =>
+      includesFieldKey([formField.key], path)
+    )
+  ).length;
+
+  /** Expand the section when one of its fields fails validation. */
+  const previousErrorCount = React.useRef(errorCount);
+  React.useEffect(() => {
+    if (errorCount > previousErrorCount.current) setCollapsed(false);
+    previousErrorCount.current = errorCount;
+  }, [errorCount]);
+  React.useEffect(() => {
+    if (previousErrorCount.current > 0) setCollapsed(false);
+  }, [submitCount]);
+
+  if (
+    enableConditionalRendering &&
+    !checkDisplayConditions(section.displayConditions, conditionValues)
+  ) {
+    return null;
+  }
+
+  const title = (
+    <>
+      {section.title}
+      {errorCount > 0 && (
+        <span className="ml-2 rounded-full bg-destructive px-2 py-0.5 text-xs font-medium text-destructive-foreground">
+          {errorCount} {errorCount === 1 ? "error" : "errors"}
+        </span>
+      )}
+    </>
+  );
+
+  return (
+    <fieldset
+      className="space-y-4 rounded-md border p-4"
+      style={fluid ? { gridColumn: "1 / -1" } : undefined}
+    >
+      <legend className="px-1 text-sm font-medium">
+        {section.collapsible ? (
+          <button
+            type="button"
+            aria-expanded={!collapsed}
+            aria-controls={contentId}
+            onClick={() => setCollapsed(!collapsed)}
+            className="flex items-center gap-1"
+          >
+            <ChevronDown
+              className={cn(
+                "h-4 w-4 transition-transform",
+                collapsed && "-rotate-90"
+              )}
+            />
+            {title}
+          </button>
+        ) : (
+          <span className="flex items-center">{title}</span>
+        )}
+      </legend>
+      {section.description && (
+        <p className="text-sm text-muted-foreground">{section.description}</p>
+      )}
+      <div
+        id={contentId}
+        hidden={collapsed}
+        style={
+          fluid
+            ? {
+                display: "grid",
+                gridTemplateColumns: `repeat(${columns}, 1fr)`,
+                gap: gap,
+              }
+            : undefined
+        }
+        className={cn(!fluid && "space-y-4")}
+      >
+        {fields.map((formField) => (
+          <FlexField key={formField.key} formField={formField} fluid={fluid} />
+        ))}
+      </div>
+    </fieldset>
+  );
+};
+
+/**
+ * Returns the states of a field: the given states of a sub-field, or those of the form's field.
+ */
+const useFieldStates = <TFieldValues extends FieldValues = FieldValues>(
+  formField: IFieldSchema<TFieldValues>,
+  states?: FieldStates
+): FieldStates => {
+  const { formMethods, fieldStates } = useFormix<TFieldValues>();
+  return (
+    states ??
+    fieldStates[formField.key] ??
+    getFieldStates(formField, formMethods.getValues())
+  );
+};
+
+const SchemaField = <TFieldValues extends FieldValues = FieldValues>({
+  formField,
+  states,
+}: {
+  formField: IFieldSchema<TFieldValues>;
+  states?: FieldStates;
+}) => {
+  const { formMethods, formDisabled, submitButtonLoading, fieldTypes } =
+    useFormix<TFieldValues>();
+  const { required, disabled, readOnly } = useFieldStates(formField, states);
+
+  return (
+    <FormField
+      control={formMethods.control}
+      name={formField.key}
+      render={({ field }) => (
+        <FieldItem>
+          <FieldLabel required={required}>{formField.label}</FieldLabel>
+          <FieldControl>
+            {formField.render ? (
+              formField.render({
+                formDisabled: formDisabled,
+                disabled: formDisabled || disabled,
+                readOnly,
+                required,
+                formErrors: formMethods.formState.errors,
+                formItem: formField,
+                formMethods: formMethods,
+                submitButtonLoading: submitButtonLoading,
+              })
+            ) : (
+              <FieldTypeControl
+                field={field}
+                formItem={formField}
+                formMethods={formMethods}
+                disabled={formDisabled || disabled}
+                readOnly={readOnly}
+                fieldTypes={fieldTypes}
+              />
+            )}
+          </FieldControl>
+          <FieldDescription>{formField.description}</FieldDescription>
+          <FieldErrorMessage />
+        </FieldItem>
+      )}
+    />
+  );
+};
+
+const FormFieldArray = <TFieldValues extends FieldValues = FieldValues>({
+  formField,
+  states,
+}: {
+  formField: IFieldSchema<TFieldValues>;
+  states?: FieldStates;
+}) => {
+  const { formMethods, formDisabled, enableConditionalRendering } =
+    useFormix<TFieldValues>();
+  const fieldStates = useFieldStates(formField, states);
+  const {
+    items,
+    addItem,
+    removeItem,
+    moveItem,
+    canAdd,
+    canRemove,
+    getItemFieldName,
+    isItemFieldVisible,
+    getItemFieldStates,
+    errorMessage,
+  } = useSchemaFieldArray(formField, formMethods, enableConditionalRendering);
+  const {
+    addButtonText = "Add",
+    itemLabel = formField.label,
+    reorderable = true,
+  } = formField.arrayConfig ?? {};
+  const disabled = formDisabled || fieldStates.disabled;
+
+  return (
+    <fieldset className="space-y-4" disabled={disabled}>
+      {formField.label && (
+        <legend className="text-sm font-medium leading-none">
+          {formField.label}
+        </legend>
+      )}
+      {formField.description && (
+        <p className="text-sm text-muted-foreground">{formField.description}</p>
+      )}
+      {items.map((item, index) => (
+        <div key={item.id} className="space-y-4 rounded-md border p-4">
+          <div className="flex items-center justify-between">
+            <span className="text-sm font-medium">
+              {itemLabel ? `${itemLabel} ${index + 1}` : index + 1}
+            </span>
+            <div className="flex gap-1">
+              {reorderable && (
+                <>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    aria-label="Move up"
+                    disabled={index === 0}
+                    onClick={() => moveItem(index, index - 1)}
+                  >
+                    <ArrowUp className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    aria-label="Move down"
+                    disabled={index === items.length - 1}
+                    onClick={() => moveItem(index, index + 1)}
+                  >
+                    <ArrowDown className="h-4 w-4" />
+                  </Button>
+                </>
+              )}
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                aria-label="Remove"
+                disabled={!canRemove}
+                onClick={() => removeItem(index)}
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          </div>
+          {(formField.fields ?? [])
+            .filter((subField) => isItemFieldVisible(index, subField))
+            .map((subField) => {
+              const itemField = {
+                ...subField,
+                key: getItemFieldName(index, subField.key),
+              } as IFieldSchema<TFieldValues>;
+              return (
+                <div
+                  key={subField.key}
+                  style={subField.style}
+                  className={subField.className}
+                >
+                  {subField.fields ? (
+                    <FormFieldArray
+                      formField={itemField}
+                      states={getItemFieldStates(index, subField)}
+                    />
                   ) : (
-                    <Input
-                      ref={field.ref}
-                      key={formField.key}
-                      name={field.name}
-                      value={field.value}
-                      onChange={field.onChange}
-                      onBlur={field.onBlur}
-                      disabled={formField.disabled}
-                      placeholder={formField.placeholder}
-                      defaultValue={formField.defaultValue}
-                      autoComplete={formField.autoComplete}
-                      className={formField.className}
-                      type={formField.type}
-                      style={formField.style}
+                    <SchemaField
+                      formField={itemField}
+                      states={getItemFieldStates(index, subField)}
                     />
                   )}
-                </FieldControl>
-                <FieldDescription>{formField.description}</FieldDescription>
-                <FieldErrorMessage />
-              </FieldItem>
-            )}
-          />
+                </div>
+              );
+            })}
         </div>
       ))}
-    </div>
+      {errorMessage && (
+        <p className="text-sm font-medium text-destructive">{errorMessage}</p>
+      )}
+      <Button
+        type="button"
+        variant="outline"
+        size="sm"
+        disabled={!canAdd}
+        onClick={addItem}
+      >
+        <Plus className="mr-2 h-4 w-4" />
+        {addButtonText}
+      </Button>
+    </fieldset>
   );
 };
 
+const FieldTypeControl = <TFieldValues extends FieldValues = FieldValues>({
+  fieldTypes,
+  ...props
+}: FieldTypeProps<TFieldValues> & {
+  fieldTypes: Record<string, FieldTypeComponent<TFieldValues>>;
+}) => {
+  const FieldComponent = resolveFieldType(props.formItem.type, fieldTypes);
+  // Controls without a native read-only mode keep their value by ignoring changes.
+  const field = props.readOnly
+    ? { ...props.field, onChange: () => undefined }
+    : props.field;
+  return <FieldComponent {...props} field={field} />;
+};
+
 const FormField = <
   TFieldValues extends FieldValues = FieldValues,
   TName extends FieldPath<TFieldValues> = FieldPath<TFieldValues>
@@ -305,8 +832,13 @@ const FieldItem = ({
 
 const FieldLabel = ({
   className,
+  required,
+  children,
   ...props
-}: React.ComponentPropsWithoutRef<typeof LabelPrimitive.Root>) => {
+}: React.ComponentPropsWithoutRef<typeof LabelPrimitive.Root> & {
+  /** Whether to show the required indicator after the label. */
+  required?: boolean;
+}) => {
   const { error, fieldItemId } = useFormField();
   const itemContext = React.useContext(FieldItemContext);
 
@@ -319,7 +851,14 @@ const FieldLabel = ({
       className={cn(error && "text-destructive", className)}
       htmlFor={fieldItemId}
       {...props}
-    />
+    >
+      {children}
+      {required && (
+        <span aria-hidden="true" className="ml-0.5 text-destructive">
+          *
+        </span>
+      )}
+    </Label>
   );
 };
 
@@ -397,6 +936,42 @@ const FieldErrorMessage = ({
   );
 };
 
+const FormErrorMessage = ({
+  className,
+  children,
+  ...props
+}: React.HTMLAttributes<HTMLDivElement>) => {
+  useFormBodyContext();
+  const { formErrors } = useFormix();
+
+  if (!formErrors.length && !children) {
+    return null;
+  }
+
+  return (
+    <div
+      role="alert"
+      className={cn(
+        "rounded-md border border-destructive px-4 py-3 text-sm font-medium text-destructive",
+        className
+      )}
+      {...props}
+    >
+      {formErrors.length === 1 ? (
+        <p>{formErrors[0]}</p>
+      ) : formErrors.length > 1 ? (
+        <ul className="list-disc space-y-1 pl-4">
+          {formErrors.map((message) => (
+            <li key={message}>{message}</li>
+          ))}
+        </ul>
+      ) : (
+        children
+      )}
+    </div>
+  );
+};
+
 export {
   useFormField,
   FormixFormProvider,
@@ -406,11 +981,16 @@ export {
   FieldControl,
   FieldDescription,
   FieldErrorMessage,
+  FormErrorMessage,
   FormField,
   FormFlexFields,
+  FormFieldArray,
+  FormSection,
   FormContent,
   FormHeader,
   FormFooter,
   FormTitle,
   FormDescription,
+  FormStepIndicator,
+  FormStepNavigation,
 };
@@ -1,6 +1,8 @@
 import { useEnterKeySubmit } from "./useEnterKeySubmit";
 import useSchemaForm from "./useSchemaForm";
 import { useFormix } from "./useFormix";
+import { useFieldOptions } from "./useFieldOptions";
+import { useSchemaFieldArray } from "./useSchemaFieldArray";
 
 /**
  * Custom hook to handle form submission using the Enter key.
@@ -19,3 +21,15 @@ export { useSchemaForm };
  * @module useFormix
  */
 export { useFormix };
+
+/**
+ * Custom hook to resolve static or asynchronously loaded field options.
+ * @module useFieldOptions
+ */
+export { useFieldOptions };
+
+/**
+ * Custom hook to manage the items of a repeatable field group.
+ * @module useSchemaFieldArray
+ */
+export { useSchemaFieldArray };
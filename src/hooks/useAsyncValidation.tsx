@@ -0,0 +1,212 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import {
+  DeepPartialSkipArrayKey,
+  FieldValues,
+  UseFormReturn,
+} from "react-hook-form";
+import { IFieldSchema } from "../interface/form.interface";
+import {
+  AsyncValidationResult,
+  serializeValue,
+} from "../utils/asyncValidationResolver";
+import { includesFieldKey } from "../utils/includesFieldKey";
+import { isEmptyValue } from "../utils/isEmptyValue";
+
+/**
+ * Whether the value of a field is checked asynchronously: it is not empty, the field is not left out
+ * of validation (hidden, waived or skipped), and the value passes the field's own validation.
+ */
+const canValidate = <TFieldValues extends FieldValues>(
+  field: IFieldSchema<TFieldValues>,
+  value: unknown,
+  excludedKeys: string[]
+) =>
+  !isEmptyValue(value) &&
+  !includesFieldKey(excludedKeys, field.key) &&
+  (field.validations?.safeParse(value).success ?? true);
+
+/**
+ * Custom hook running the async validations declared on the fields.
+ * A check runs once its field's value has stopped changing for `asyncValidationDebounce` milliseconds;
+ * a newer value aborts the check in progress. Results are stored in `results` for the resolver,
+ * and the field is revalidated as soon as a check completes, so that the resolver reports them.
+ * @template TFieldValues - The type of field values.
+ * @param {IFieldSchema<TFieldValues>[]} schema - The fields of the form.
+ * @param {UseFormReturn<TFieldValues>} formMethods - Methods from react-hook-form for managing the form state.
+ * @param {DeepPartialSkipArrayKey<TFieldValues>} formValues - The watched form values.
+ * @param {Map<string, AsyncValidationResult>} results - The async validation results by field key.
+ * @param {(values: TFieldValues) => string[]} getExcludedKeys - Returns the keys of the fields left out of validation.
+ * @returns The fields being checked, and a function running the outstanding checks right away.
+ */
+export const useAsyncValidation = <TFieldValues extends FieldValues>(
+  schema: IFieldSchema<TFieldValues>[],
+  formMethods: UseFormReturn<TFieldValues>,
+  formValues: DeepPartialSkipArrayKey<TFieldValues>,
+  results: Map<string, AsyncValidationResult>,
+  getExcludedKeys: (values: TFieldValues) => string[]
+) => {
+  const [validatingFields, setValidatingFields] = useState<Set<string>>(
+    () => new Set()
+  );
+  const timers = useRef(new Map<string, ReturnType<typeof setTimeout>>());
+  const controllers = useRef(new Map<string, AbortController>());
+  const pending = useRef(new Map<string, Promise<void>>());
+  /** The serialized value each field was last scheduled or checked with. */
+  const scheduledValues = useRef(new Map<string, string>());
+
+  const asyncFields = useMemo(
+    () => schema.filter((field) => field.asyncValidation),
+    [schema]
+  );
+
+  const setValidating = useCallback((key: string, validating: boolean) => {
+    setValidatingFields((prev) => {
+      const next = new Set(prev);
+      if (validating) {
+        next.add(key);
+      } else {
+        next.delete(key);
+      }
+      return next;
+    });
+  }, []);
+
+  /** Cancels the scheduled or running check of a field. */
+  const cancel = useCallback(
+    (key: string) => {
+      clearTimeout(timers.current.get(key));
+      timers.current.delete(key);
+      controllers.current.get(key)?.abort();
+      controllers.current.delete(key);
+      if (pending.current.delete(key)) setValidating(key, false);
+    },
+    [setValidating]
+  );
+
+  const runValidation = useCallback(
+    (field: IFieldSchema<TFieldValues>) => {
+      const { key, asyncValidation } = field;
+      cancel(key);
+      if (!asyncValidation) return Promise.resolve();
+
+      const value = formMethods.getValues(key);
+      const serializedValue = serializeValue(value);
+      const controller = new AbortController();
+      controllers.current.set(key, controller);
+      scheduledValues.current.set(key, serializedValue);
+      setValidating(key, true);
+
+      const promise = (async () => {
+        try {
+          const result = await asyncValidation(value, {
+            formValues: formMethods.getValues(),
+            signal: controller.signal,
+          });
+          if (controller.signal.aborted) return;
+
+          const message = typeof result === "string" ? result : undefined;
+          results.set(key, { value: serializedValue, message });
+          if (
+            message ||
+            formMethods.getFieldState(key).error?.type === "async"
+          ) {
+            formMethods.trigger(key);
+          }
+        } catch (error) {
+          if (controller.signal.aborted) return;
+          console.error(`Error during async validation of ${key}:`, error);
+        } finally {
+          if (controllers.current.get(key) === controller) {
+            controllers.current.delete(key);
+            pending.current.delete(key);
+            setValidating(key, false);
+          }
+        }
+      })();
+
+      pending.current.set(key, promise);
+      return promise;
+    },
+    [cancel, formMethods, results, setValidating]
+  );
+
+  /** Schedule a check whenever the value of a field with an async validation changes. */
+  useEffect(() => {
+    const excludedKeys = getExcludedKeys(formMethods.getValues());
+    asyncFields.forEach((field) => {
+      const value = formMethods.getValues(field.key);
+      if (!canValidate(field, value, excludedKeys)) {
+        cancel(field.key);
+        scheduledValues.current.delete(field.key);
+        return;
+      }
+
+      const serializedValue = serializeValue(value);
+      if (scheduledValues.current.get(field.key) === serializedValue) return;
+      cancel(field.key);
+      scheduledValues.current.set(field.key, serializedValue);
+
+      timers.current.set(
+        field.key,
+        setTimeout(
+          () => runValidation(field),
+          field.asyncValidationDebounce ?? 500
+        )
+      );
+    });
+  }, [
+    formValues,
+    asyncFields,
+    formMethods,
+    getExcludedKeys,
+    cancel,
+    runValidation,
+  ]);
+
+  /** Cancel every check on unmount. */
+  useEffect(() => {
+    const scheduled = timers.current;
+    const running = controllers.current;
+    return () => {
+      scheduled.forEach((timer) => clearTimeout(timer));
+      running.forEach((controller) => controller.abort());
+    };
+  }, []);
+
+  /**
+   * Runs the checks that are scheduled or missing for the current values, without waiting for the debounce,
+   * and resolves once every check in progress has completed.
+   * @param {string[]} [keys] - Restricts the checks to these fields.
+   */
+  const flushAsyncValidation = useCallback(
+    async (keys?: string[]) => {
+      const excludedKeys = getExcludedKeys(formMethods.getValues());
+      await Promise.all(
+        asyncFields
+          .filter((field) => !keys || includesFieldKey(keys, field.key))
+          .map((field) => {
+            const value = formMethods.getValues(field.key);
+            const serializedValue = serializeValue(value);
+            const running = pending.current.get(field.key);
+            if (
+              !canValidate(field, value, excludedKeys) ||
+              results.get(field.key)?.value === serializedValue
+            ) {
+              return running;
+            }
+            if (
+              running &&
+              !timers.current.has(field.key) &&
+              scheduledValues.current.get(field.key) === serializedValue
+            ) {
+              return running;
+            }
+            return runValidation(field);
+          })
+      );
+    },
+    [asyncFields, formMethods, getExcludedKeys, results, runValidation]
+  );
+
+  return { validatingFields, flushAsyncValidation };
+};
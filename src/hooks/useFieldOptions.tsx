@@ -0,0 +1,190 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { FieldValues, UseFormReturn, useWatch } from "react-hook-form";
+import {
+  AsyncOptionsLoader,
+  FieldOption,
+  IFieldSchema,
+  UseFieldOptionsReturn,
+} from "../interface/form.interface";
+
+/**
+ * Loaded pages of options for a search query.
+ */
+interface CachedOptions {
+  /** The options of every page loaded so far. */
+  options: FieldOption[];
+  /** The last page loaded. */
+  page: number;
+  /** Whether more pages are available. */
+  hasMore: boolean;
+}
+
+/**
+ * Custom hook resolving the options of a field, whether static or loaded asynchronously.
+ * Static options are filtered by the search text. Async loaders are called with a debounced search,
+ * their pages are cached per query, and responses to stale requests are discarded.
+ * When a field listed in `optionsDependsOn` changes, the cache is dropped and the options are reloaded;
+ * the form itself clears or flags a value no longer among them, as the field may not be rendered.
+ * @template TFieldValues - The type of field values.
+ * @param {IFieldSchema<TFieldValues>} formItem - The schema definition of the field.
+ * @param {UseFormReturn<TFieldValues>} formMethods - Methods from react-hook-form, used to pass the form values to the loader.
+ * @returns {UseFieldOptionsReturn} - The options and their loading state.
+ */
+export const useFieldOptions = <TFieldValues extends FieldValues>(
+  formItem: IFieldSchema<TFieldValues>,
+  formMethods: UseFormReturn<TFieldValues>
+): UseFieldOptionsReturn => {
+  const {
+    options: fieldOptions,
+    optionsDebounce = 300,
+    optionsDependsOn,
+  } = formItem;
+  const isAsync = typeof fieldOptions === "function";
+
+  /** Watch the fields the options depend on. */
+  const dependencyValues = useWatch({
+    control: formMethods.control,
+    name: optionsDependsOn ?? [],
+    disabled: !optionsDependsOn?.length,
+  });
+  const dependencyKey = JSON.stringify(dependencyValues ?? []);
+
+  // The loader is read through a ref so schemas declared inline do not retrigger loads on every render.
+  const loaderRef = useRef<AsyncOptionsLoader<TFieldValues> | undefined>();
+  loaderRef.current = isAsync ? fieldOptions : undefined;
+
+  const cache = useRef(new Map<string, CachedOptions>());
+  const labels = useRef(new Map<string | number, string>());
+  const requestId = useRef(0);
+  const lastRequest = useRef({ query: "", page: 0 });
+  const previousDependencyKey = useRef(dependencyKey);
+
+  const [search, setSearch] = useState("");
+  const [query, setQuery] = useState("");
+  const [loaded, setLoaded] = useState<CachedOptions>({
+    options: [],
+    page: -1,
+    hasMore: false,
+  });
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string>();
+
+  /** Debounce the search text before it is sent to the loader. */
+  useEffect(() => {
+    if (!isAsync) return;
+    const timeout = setTimeout(() => setQuery(search.trim()), optionsDebounce);
+    return () => clearTimeout(timeout);
+  }, [search, isAsync, optionsDebounce]);
+
+  const loadPage = useCallback(
+    async (pageQuery: string, page: number) => {
+      const loader = loaderRef.current;
+      if (!loader) return;
+
+      const cached = cache.current.get(pageQuery);
+      if (cached && cached.page >= page) {
+        requestId.current++;
+        setLoaded(cached);
+        setLoading(false);
+        setError(undefined);
+        return;
+      }
+
+      const id = ++requestId.current;
+      lastRequest.current = { query: pageQuery, page };
+      setLoading(true);
+      setError(undefined);
+
+      try {
+        const result = await loader({
+          query: pageQuery,
+          page,
+          formValues: formMethods.getValues(),
+        });
+        result.options.forEach((option) =>
+          labels.current.set(option.value, option.label)
+        );
+        const entry: CachedOptions = {
+          options:
+            page === 0
+              ? result.options
+              : [...(cached?.options ?? []), ...result.options],
+          page,
+          hasMore: !!result.hasMore,
+        };
+        cache.current.set(pageQuery, entry);
+        if (id !== requestId.current) return;
+        setLoaded(entry);
+      } catch (loadError) {
+        if (id !== requestId.current) return;
+        console.error("Error loading field options:", loadError);
+        setError(
+          loadError instanceof Error
+            ? loadError.message
+            : "Failed to load options"
+        );
+      } finally {
+        if (id === requestId.current) setLoading(false);
+      }
+    },
+    [formMethods]
+  );
+
+  /** Load the first page whenever the debounced query changes. */
+  useEffect(() => {
+    if (isAsync) loadPage(query, 0);
+  }, [isAsync, query, loadPage]);
+
+  /** Reload the options from scratch when a field they depend on changes. */
+  useEffect(() => {
+    if (previousDependencyKey.current === dependencyKey) return;
+    previousDependencyKey.current = dependencyKey;
+    if (!isAsync) return;
+    cache.current.clear();
+    setSearch("");
+    setQuery("");
+    loadPage("", 0);
+  }, [dependencyKey, isAsync, loadPage]);
+
+  const loadMore = useCallback(() => {
+    if (isAsync && loaded.hasMore && !loading) {
+      loadPage(query, loaded.page + 1);
+    }
+  }, [isAsync, loaded, loading, loadPage, query]);
+
+  const retry = useCallback(() => {
+    loadPage(lastRequest.current.query, lastRequest.current.page);
+  }, [loadPage]);
+
+  const options = useMemo(() => {
+    if (isAsync) return loaded.options;
+    const staticOptions = fieldOptions ?? [];
+    const text = search.trim().toLowerCase();
+    return text
+      ? staticOptions.filter((option) =>
+          option.label.toLowerCase().includes(text)
+        )
+      : staticOptions;
+  }, [isAsync, loaded, fieldOptions, search]);
+
+  const getOptionLabel = useCallback(
+    (value: string | number) =>
+      (Array.isArray(fieldOptions)
+        ? fieldOptions.find((option) => option.value === value)?.label
+        : undefined) ?? labels.current.get(value),
+    [fieldOptions]
+  );
+
+  return {
+    options,
+    isAsync,
+    loading,
+    error,
+    hasMore: isAsync && loaded.hasMore,
+    search,
+    setSearch,
+    loadMore,
+    retry,
+    getOptionLabel,
+  };
+};
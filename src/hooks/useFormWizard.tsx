@@ -0,0 +1,151 @@
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { DeepPartialSkipArrayKey, FieldValues, Path } from "react-hook-form";
+import { FormStep, UseFormWizardReturn } from "../interface/form.interface";
+import { checkDisplayConditions } from "../utils/checkDisplayConditions";
+import { handleStorage, readStorage } from "../utils/handleStorage";
+import { includesFieldKey } from "../utils/includesFieldKey";
+
+/**
+ * Custom hook managing the navigation between the steps of a multi-step form.
+ * Steps whose display conditions fail are skipped, and the path of visited steps is kept so that going
+ * back returns to the step actually visited. Moving forward validates the fields of the steps being left;
+ * the path is persisted next to the form response so a saved draft reopens where it was left.
+ * @template TFieldValues - The type of field values.
+ * @param {FormStep<TFieldValues>[] | undefined} steps - The steps of the form.
+ * @param {DeepPartialSkipArrayKey<TFieldValues>} formValues - The current form values, used to evaluate step conditions.
+ * @param {(keys: Path<TFieldValues>[]) => Promise<boolean>} validateFields - Validates a set of fields and resolves to whether they are valid.
+ * @param {string} formKey - The unique key of the form, used to persist the visited steps.
+ * @param {"localStorage" | "sessionStorage" | undefined} persistFormResponse - Where the form response is persisted.
+ * @returns {UseFormWizardReturn<TFieldValues>} - The state and navigation of the steps.
+ */
+export const useFormWizard = <TFieldValues extends FieldValues>(
+  steps: FormStep<TFieldValues>[] | undefined,
+  formValues: DeepPartialSkipArrayKey<TFieldValues>,
+  validateFields: (keys: Path<TFieldValues>[]) => Promise<boolean>,
+  formKey: string,
+  persistFormResponse: "localStorage" | "sessionStorage" | undefined
+): UseFormWizardReturn<TFieldValues> => {
+  const formSteps = useMemo(() => steps ?? [], [steps]);
+  const stepKey = `${formKey}-step`;
+
+  /** Whether each step passes its display conditions with the current values. */
+  const activeSteps = useMemo(
+    () =>
+      formSteps.map((step) =>
+        checkDisplayConditions(step.displayConditions, formValues)
+      ),
+    [formSteps, formValues]
+  );
+
+  const findNextStep = useCallback(
+    (index: number) => activeSteps.indexOf(true, index + 1),
+    [activeSteps]
+  );
+
+  /** Indexes of the visited steps, ending with the current one. */
+  const [history, setHistory] = useState<number[]>(() => {
+    const storedHistory = readStorage<string[]>(stepKey, persistFormResponse);
+    const restoredHistory = (Array.isArray(storedHistory) ? storedHistory : [])
+      .map((id) => formSteps.findIndex((step) => step.id === id))
+      .filter((index) => index !== -1);
+    return restoredHistory.length
+      ? restoredHistory
+      : [Math.max(activeSteps.indexOf(true), 0)];
+  });
+
+  const currentStepIndex = history[history.length - 1];
+  const currentStep = formSteps[currentStepIndex];
+  const isFirstStep = history.length <= 1;
+  const isLastStep = findNextStep(currentStepIndex) === -1;
+
+  /** Persist the visited steps along with the form response. */
+  useEffect(() => {
+    if (formSteps.length) {
+      handleStorage(
+        stepKey,
+        history.map((index) => formSteps[index].id),
+        persistFormResponse
+      );
+    }
+  }, [history, formSteps, stepKey, persistFormResponse]);
+
+  const goToStep = useCallback(
+    async (index: number) => {
+      const visitedIndex = history.indexOf(index);
+      if (visitedIndex !== -1) {
+        setHistory(history.slice(0, visitedIndex + 1));
+        return true;
+      }
+      if (index <= currentStepIndex || !activeSteps[index]) return false;
+
+      const path = [...history];
+      let stepIndex = currentStepIndex;
+      while (stepIndex !== index) {
+        if (!(await validateFields(formSteps[stepIndex].fields))) {
+          setHistory(path);
+          return false;
+        }
+        stepIndex = findNextStep(stepIndex);
+        path.push(stepIndex);
+      }
+
+      setHistory(path);
+      return true;
+    },
+    [
+      history,
+      currentStepIndex,
+      activeSteps,
+      formSteps,
+      findNextStep,
+      validateFields,
+    ]
+  );
+
+  const next = useCallback(async () => {
+    const nextStepIndex = findNextStep(currentStepIndex);
+    return nextStepIndex !== -1 && goToStep(nextStepIndex);
+  }, [findNextStep, currentStepIndex, goToStep]);
+
+  const back = useCallback(() => {
+    setHistory((path) => (path.length > 1 ? path.slice(0, -1) : path));
+  }, []);
+
+  const isStepActive = useCallback(
+    (index: number) => !!activeSteps[index],
+    [activeSteps]
+  );
+
+  const isFieldInCurrentStep = useCallback(
+    (key: string) => !currentStep || includesFieldKey(currentStep.fields, key),
+    [currentStep]
+  );
+
+  /** Fields that only belong to skipped steps, left out of validation and of the submitted values. */
+  const skippedFields = useMemo(() => {
+    const inactiveFields = formSteps
+      .filter((_step, index) => !activeSteps[index])
+      .flatMap((step) => step.fields);
+    return inactiveFields.filter((key) =>
+      formSteps.every(
+        (step, index) =>
+          !activeSteps[index] || !includesFieldKey(step.fields, key)
+      )
+    );
+  }, [formSteps, activeSteps]);
+
+  return {
+    steps: formSteps,
+    currentStepIndex,
+    currentStep,
+    history,
+    isFirstStep,
+    isLastStep,
+    next,
+    back,
+    goToStep,
+    isStepActive,
+    isFieldInCurrentStep,
+    skippedFields,
+  };
+};
@@ -0,0 +1,108 @@
+import { useCallback } from "react";
+import {
+  ArrayPath,
+  FieldArray,
+  FieldValues,
+  UseFormReturn,
+  get,
+  useFieldArray,
+  useWatch,
+} from "react-hook-form";
+import {
+  IFieldSchema,
+  UseSchemaFieldArrayReturn,
+} from "../interface/form.interface";
+import { checkDisplayConditions } from "../utils/checkDisplayConditions";
+import { getFieldStates } from "../utils/getFieldStates";
+import { getFieldArrayItem } from "../utils/getFieldArrayItem";
+import { getZodConstraints } from "../utils/getZodConstraints";
+
+/**
+ * Custom hook managing the items of a repeatable field group declared with `fields`.
+ * Built on react-hook-form's useFieldArray; adding and removing items respects the minimum and
+ * maximum item counts of the field's ZodArray validation.
+ * @template TFieldValues - The type of field values.
+ * @param {IFieldSchema<TFieldValues>} formItem - The schema definition of the field group.
+ * @param {UseFormReturn<TFieldValues>} formMethods - Methods from react-hook-form for managing the form state.
+ * @param {boolean} [enableConditionalRendering=false] - Whether sub-fields are shown according to their display conditions,
+ * as the form validates hidden sub-fields only when they are.
+ * @returns {UseSchemaFieldArrayReturn} - The items and the methods to edit them.
+ */
+export const useSchemaFieldArray = <TFieldValues extends FieldValues>(
+  formItem: IFieldSchema<TFieldValues>,
+  formMethods: UseFormReturn<TFieldValues>,
+  enableConditionalRendering = false
+): UseSchemaFieldArrayReturn => {
+  const { control, formState } = formMethods;
+  const name = formItem.key as ArrayPath<TFieldValues>;
+  const subFields = formItem.fields ?? [];
+
+  const {
+    fields: items,
+    append,
+    remove,
+    move,
+  } = useFieldArray({
+    control,
+    name,
+  });
+
+  /** Watch the item values to evaluate per-item display conditions. */
+  const itemValues = useWatch({ control, name: formItem.key });
+
+  const { minItems = 0, maxItems } = getZodConstraints(formItem.validations);
+  const canAdd = maxItems === undefined || items.length < maxItems;
+  const canRemove = items.length > minItems;
+
+  const addItem = () => {
+    if (canAdd) {
+      append(
+        getFieldArrayItem(subFields) as FieldArray<
+          TFieldValues,
+          ArrayPath<TFieldValues>
+        >
+      );
+    }
+  };
+
+  const removeItem = (index: number) => {
+    if (canRemove) remove(index);
+  };
+
+  const moveItem = (from: number, to: number) => {
+    if (to >= 0 && to < items.length) move(from, to);
+  };
+
+  const getItemFieldName = useCallback(
+    (index: number, subKey: string) => `${formItem.key}.${index}.${subKey}`,
+    [formItem.key]
+  );
+
+  const isItemFieldVisible = (index: number, subField: IFieldSchema<any>) =>
+    !enableConditionalRendering ||
+    checkDisplayConditions(
+      subField.displayConditions,
+      (Array.isArray(itemValues) && itemValues[index]) || {}
+    );
+
+  const getItemFieldStates = (index: number, subField: IFieldSchema<any>) =>
+    getFieldStates(
+      subField,
+      (Array.isArray(itemValues) && itemValues[index]) || {}
+    );
+
+  const error = get(formState.errors, formItem.key);
+
+  return {
+    items,
+    addItem,
+    removeItem,
+    moveItem,
+    canAdd,
+    canRemove,
+    getItemFieldName,
+    isItemFieldVisible,
+    getItemFieldStates,
+    errorMessage: error?.root?.message ?? error?.message,
+  };
+};
@@ -1,7 +1,16 @@
-import { useCallback, useEffect, useMemo, useState } from "react";
+import {
+  BaseSyntheticEvent,
+  useCallback,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+} from "react";
 import { zodResolver } from "@hookform/resolvers/zod";
 import {
+  get,
   Path,
+  PathValue,
   useForm,
   useWatch,
   FieldValues,
@@ -9,20 +18,44 @@ import {
   DeepPartialSkipArrayKey,
 } from "react-hook-form";
 import {
+  AsyncOptionsResult,
+  FormSubmitError,
+  IFieldSchema,
   ISchemaFormProps,
   RenderFlexFieldsProps,
   RenderFormProps,
   UseSchemaFormReturn,
 } from "../interface/form.interface";
-import {
-  onChangeRemoveValidationCheck,
-  onErrorRemoveValidationCheck,
-} from "../utils/removeValidationCheck";
+import { onChangeRemoveValidationCheck } from "../utils/removeValidationCheck";
 import { updateFieldVisibility } from "../utils/updateFieldVisibility";
 import { generateDynamicSchema } from "../utils/generateDynamicSchema";
 import { getInitialValues } from "../utils/getInitialValues";
 import { handleStorage } from "../utils/handleStorage";
+import { excludeFieldsResolver } from "../utils/excludeFieldsResolver";
+import { formValidationResolver } from "../utils/formValidationResolver";
+import { requiredConditionsResolver } from "../utils/requiredConditionsResolver";
+import {
+  AsyncValidationResult,
+  asyncValidationResolver,
+} from "../utils/asyncValidationResolver";
+import { loadedOptionsResolver } from "../utils/loadedOptionsResolver";
+import { getOptionDependencies } from "../utils/getOptionDependencies";
+import { isEmptyValue } from "../utils/isEmptyValue";
+import { omitFields } from "../utils/omitFields";
+import { getErrorPaths } from "../utils/getErrorPaths";
+import { includesFieldKey } from "../utils/includesFieldKey";
+import { getFieldStates } from "../utils/getFieldStates";
+import { getWaivedFields } from "../utils/getWaivedFields";
+import { getHiddenFields } from "../utils/getHiddenFields";
+import {
+  getConditionValues,
+  getStrippedFields,
+} from "../utils/getStrippedFields";
+import { isFormSubmitError } from "../utils/formSubmissionError";
 import { useEnterKeySubmit } from "./useEnterKeySubmit";
+import { useFormWizard } from "./useFormWizard";
+import { useAsyncValidation } from "./useAsyncValidation";
+import { BareFieldArray } from "../components/form/bare-field-array";
 
 /**
  * Custom hook for handling schema-based forms with validation and conditional rendering.
@@ -48,8 +81,14 @@ const useSchemaForm = <TFieldValues extends FieldValues>(
     onSubmit,
     onInvalidSubmit,
     onChange,
+    formValidation,
     enableConditionalRendering = false,
+    hiddenValuePolicy = "keep",
     enableValidations = true,
+    fieldTypes,
+    steps,
+    sections,
+    tabs,
   } = props;
 
   /** Unique key for the form, based on the form slug. */
@@ -61,6 +100,12 @@ const useSchemaForm = <TFieldValues extends FieldValues>(
   /** State for managing the loading state of the submit button. */
   const [submitButtonLoading, setSubmitButtonLoading] = useState(false);
 
+  /** State for the active tab of a tabbed layout. */
+  const [activeTab, setActiveTab] = useState(tabs?.[0]?.id);
+
+  /** State for the form-level errors of the last submission. */
+  const [formErrors, setFormErrors] = useState<string[]>([]);
+
   /** State for tracking which fields can have their validations removed. */
   const [canRemoveValidationForFields, setCanRemoveValidationForFields] =
     useState<Record<string, boolean>>({});
@@ -82,15 +127,253 @@ const useSchemaForm = <TFieldValues extends FieldValues>(
     [formKey, schema, persistFormResponse, defaultValues]
   );
 
+  /** Keys of the fields of skipped steps, read by the resolver and the submit handlers. */
+  const skippedFieldsRef = useRef<string[]>([]);
+
+  /** Values of the options reloaded for the fields revalidated against them, read by the resolver. */
+  const loadedOptions = useRef(new Map<string, Array<string | number>>());
+
+  /** Serialized values of the fields each field's options depend on, by field key. */
+  const optionDependenciesRef = useRef<Map<string, string>>();
+
+  /** The latest options reload of each field, so that the responses of older ones are discarded. */
+  const optionRequests = useRef(new Map<string, number>());
+
+  /**
+   * Keys of the hidden fields with the "reset" policy at the last change, to reset the values of
+   * newly hidden fields; undefined until the fields hidden at mount are known.
+   */
+  const hiddenFieldsRef = useRef<string[]>();
+
+  /** Results of the fields' async validations, read by the resolver. */
+  const asyncValidationResults = useRef(
+    new Map<string, AsyncValidationResult>()
+  );
+
+  /**
+   * Returns the values the conditions are evaluated on, without the stripped values of hidden fields.
+   * @param {Record<string, any>} values - The form values.
+   */
+  const toConditionValues = (values: Record<string, any>) =>
+    enableConditionalRendering
+      ? getConditionValues(schema, values, sections, hiddenValuePolicy)
+      : values;
+
+  /**
+   * Returns the keys of the fields left out of validation: the fields of skipped steps and,
+   * with conditional rendering, the fields hidden or waived by their conditions.
+   * @param {Record<string, any>} values - The form values.
+   */
+  const getExcludedKeys = useCallback(
+    (values: Record<string, any>) =>
+      enableConditionalRendering
+        ? [
+            ...skippedFieldsRef.current,
+            ...getWaivedFields(
+              schema,
+              getConditionValues(schema, values, sections, hiddenValuePolicy),
+              sections
+            ),
+          ]
+        : skippedFieldsRef.current,
+    [enableConditionalRendering, schema, sections, hiddenValuePolicy]
+  );
+
   /** Methods from react-hook-form for managing form state and validation. */
   const formMethods = useForm<TFieldValues>({
     defaultValues: initialValues,
     mode: validationMode ?? "onChange",
     criteriaMode: criteriaMode ?? "all",
     reValidateMode: reValidateMode ?? "onChange",
-    resolver: enableValidations ? zodResolver(zodSchema) : undefined,
+    resolver: enableValidations
+      ? excludeFieldsResolver(
+          (excludedKeys) =>
+            loadedOptionsResolver(
+              asyncValidationResolver(
+                requiredConditionsResolver(
+                  (optionalKeys) =>
+                    formValidationResolver(
+                      zodResolver(
+                        excludedKeys.length || optionalKeys.length
+                          ? generateDynamicSchema(schema, {
+                              excluded: excludedKeys,
+                              optional: optionalKeys,
+                            })
+                          : zodSchema
+                      ),
+                      formValidation
+                    ),
+                  schema,
+                  toConditionValues
+                ),
+                schema,
+                asyncValidationResults.current
+              ),
+              loadedOptions.current
+            ),
+          getExcludedKeys
+        )
+      : undefined,
+  });
+
+  /** Watch for changes in form values. */
+  const formValues = useWatch<TFieldValues>({
+    control: formMethods.control,
   });
 
+  /** The values the conditions are evaluated on, without the stripped values of hidden fields. */
+  const conditionValues = useMemo(
+    () =>
+      enableConditionalRendering
+        ? getConditionValues(schema, formValues, sections, hiddenValuePolicy)
+        : formValues,
+    [
+      schema,
+      formValues,
+      sections,
+      hiddenValuePolicy,
+      enableConditionalRendering,
+    ]
+  );
+
+  /** The required, disabled and read-only states of the fields, from their conditions. */
+  const fieldStates = useMemo(
+    () =>
+      Object.fromEntries(
+        schema.map((field) => [
+          field.key,
+          getFieldStates(field, conditionValues),
+        ])
+      ),
+    [schema, conditionValues]
+  );
+
+  /** Async validations of the fields, with the fields being checked. */
+  const { validatingFields, flushAsyncValidation } = useAsyncValidation(
+    schema,
+    formMethods,
+    formValues,
+    asyncValidationResults.current,
+    getExcludedKeys
+  );
+
+  /**
+   * Reloads the first page of a field's options after a field they depend on changed, and clears a value
+   * no longer among them or has the resolver flag it, according to `onInvalidOption`.
+   * Nothing is checked while more pages are available, since the value may be on a later page.
+   * @param {string} key - The key of the field, with the item index for sub-fields.
+   * @param {IFieldSchema<TFieldValues>} field - The schema of the field.
+   */
+  const reloadFieldOptions = useCallback(
+    async (key: string, field: IFieldSchema<TFieldValues>) => {
+      const requestId = (optionRequests.current.get(key) ?? 0) + 1;
+      optionRequests.current.set(key, requestId);
+      loadedOptions.current.delete(key);
+
+      let result: AsyncOptionsResult;
+      try {
+        result =
+          typeof field.options === "function"
+            ? await field.options({
+                query: "",
+                page: 0,
+                formValues: formMethods.getValues(),
+              })
+            : { options: field.options ?? [] };
+      } catch (error) {
+        console.error("Error loading field options:", error);
+        return;
+      }
+      if (optionRequests.current.get(key) !== requestId || result.hasMore) {
+        return;
+      }
+
+      const allowed = result.options.map((option) => option.value);
+      if (field.onInvalidOption === "revalidate") {
+        loadedOptions.current.set(key, allowed);
+      }
+      const name = key as Path<TFieldValues>;
+      const value = formMethods.getValues(name);
+      if (isEmptyValue(value)) return;
+      const values: Array<string | number> = Array.isArray(value)
+        ? value
+        : [value];
+      if (values.every((item) => allowed.includes(item))) return;
+
+      if (field.onInvalidOption === "revalidate") {
+        formMethods.trigger(name);
+        return;
+      }
+      formMethods.setValue(
+        name,
+        (Array.isArray(value)
+          ? values.filter((item) => allowed.includes(item))
+          : undefined) as PathValue<TFieldValues, Path<TFieldValues>>,
+        {
+          shouldDirty: true,
+          shouldValidate: formMethods.formState.isSubmitted,
+        }
+      );
+    },
+    [formMethods]
+  );
+
+  /**
+   * Shows the first tab containing one of the given field paths.
+   * @param {string[]} paths - The paths of the fields with errors.
+   */
+  const showFirstTabWithError = useCallback(
+    (paths: string[]) => {
+      const errorTab = tabs?.find((tab) =>
+        paths.some((path) => includesFieldKey(tab.fields, path))
+      );
+      if (errorTab) setActiveTab(errorTab.id);
+    },
+    [tabs]
+  );
+
+  /**
+   * Applies the errors of a submission rejected by `onSubmit` to the fields and the form.
+   * @param {FormSubmitError} submitError - The errors returned or thrown by `onSubmit`.
+   */
+  const applySubmitError = useCallback(
+    ({
+      fieldErrors = {},
+      formErrors: submitFormErrors = [],
+    }: FormSubmitError) => {
+      const paths = Object.keys(fieldErrors);
+      paths.forEach((path, index) => {
+        formMethods.setError(
+          path as Path<TFieldValues>,
+          { type: "server", message: fieldErrors[path] },
+          { shouldFocus: index === 0 }
+        );
+      });
+      showFirstTabWithError(paths);
+      setFormErrors(submitFormErrors);
+    },
+    [formMethods, showFirstTabWithError]
+  );
+
+  /**
+   * Calls `onSubmit` and applies the errors it returns or throws.
+   * @param {TFieldValues} values - The values to submit.
+   */
+  const submitValues = useCallback(
+    async (values: TFieldValues) => {
+      if (!onSubmit) return;
+      setFormErrors([]);
+      try {
+        const result = await onSubmit(values);
+        if (isFormSubmitError(result)) applySubmitError(result);
+      } catch (error) {
+        if (!isFormSubmitError(error)) throw error;
+        applySubmitError(error);
+      }
+    },
+    [onSubmit, applySubmitError]
+  );
+
   /**
    * Handler for form submission.
    * @param {TFieldValues} values - The form values.
@@ -99,16 +382,26 @@ const useSchemaForm = <TFieldValues extends FieldValues>(
     async (values: TFieldValues) => {
       setSubmitButtonLoading(true);
       try {
-        if (onSubmit) {
-          await onSubmit(values);
-        }
+        // The values of hidden fields with the "strip" policy are left out of the submission.
+        const strippedFields = enableConditionalRendering
+          ? getStrippedFields(schema, values, sections, hiddenValuePolicy)
+          : [];
+        await submitValues(
+          omitFields(values, [...skippedFieldsRef.current, ...strippedFields])
+        );
       } catch (error) {
         console.error("Error during form submission:", error);
       } finally {
         setSubmitButtonLoading(false);
       }
     },
-    [onSubmit]
+    [
+      schema,
+      sections,
+      hiddenValuePolicy,
+      enableConditionalRendering,
+      submitValues,
+    ]
   );
 
   /**
@@ -138,50 +431,71 @@ const useSchemaForm = <TFieldValues extends FieldValues>(
       const sanitizedErrors = stripRefsFromErrors(errors);
       console.log("Sanitized validation errors:", sanitizedErrors);
 
-      if (enableConditionalRendering) {
-        const formResponse = formMethods.getValues();
-        const isValidForSubmission = onErrorRemoveValidationCheck<TFieldValues>(
-          sanitizedErrors,
-          schema,
-          formResponse,
-          setCanRemoveValidationForFields
-        );
-
-        console.log("Form response:", formResponse);
-
-        try {
-          if (isValidForSubmission && onSubmit) {
-            await onSubmit(formResponse);
-          } else if (onInvalidSubmit) {
-            await onInvalidSubmit(sanitizedErrors);
-          }
-        } catch (error) {
-          console.error("Error during form submission process:", error);
-        } finally {
-          setSubmitButtonLoading(false);
-        }
-      } else {
-        console.log(
-          "Conditional rendering is disabled. Processing errors directly."
-        );
-        try {
-          if (onInvalidSubmit) {
-            await onInvalidSubmit(sanitizedErrors);
-          }
-        } catch (error) {
-          console.error("Error during form submission process:", error);
-        } finally {
-          setSubmitButtonLoading(false);
+      // Hidden and waived fields are already left out by the resolver, so the errors stand.
+      try {
+        if (onInvalidSubmit) {
+          await onInvalidSubmit(sanitizedErrors);
         }
+      } catch (error) {
+        console.error("Error during form submission process:", error);
+      } finally {
+        setSubmitButtonLoading(false);
       }
     },
-    [formMethods, schema, enableConditionalRendering, onSubmit, onInvalidSubmit]
+    [onInvalidSubmit]
   );
 
-  /** Watch for changes in form values. */
-  const formValues = useWatch<TFieldValues>({
-    control: formMethods.control,
-  });
+  /**
+   * Validates a set of fields, as done before leaving a step.
+   * @param {Path<TFieldValues>[]} keys - The keys of the fields to validate.
+   * @returns {Promise<boolean>} - Whether the fields are valid.
+   */
+  const validateFields = useCallback(
+    async (keys: Path<TFieldValues>[]) => {
+      await flushAsyncValidation(keys);
+      return !keys.length || (await formMethods.trigger(keys));
+    },
+    [formMethods, flushAsyncValidation]
+  );
+
+  /** State and navigation of the form's steps. */
+  const wizard = useFormWizard<TFieldValues>(
+    steps,
+    conditionValues as DeepPartialSkipArrayKey<TFieldValues>,
+    validateFields,
+    formKey,
+    persistFormResponse
+  );
+  skippedFieldsRef.current = wizard.skippedFields;
+
+  /**
+   * Validates the form and routes the result to the submit or invalid submit handler.
+   * On any step but the last, the step is validated and the form moves to the next one instead.
+   */
+  const submitForm = useCallback(
+    async (event?: BaseSyntheticEvent) => {
+      if (!wizard.isLastStep) {
+        event?.preventDefault();
+        await wizard.next();
+        return;
+      }
+      // Submission waits for the async validations still pending.
+      event?.preventDefault();
+      await flushAsyncValidation();
+      await formMethods.handleSubmit(handleOnSubmit, async (errors) => {
+        showFirstTabWithError(getErrorPaths(errors));
+        await handleOnInvalidSubmit(errors);
+      })(event);
+    },
+    [
+      wizard,
+      formMethods,
+      showFirstTabWithError,
+      flushAsyncValidation,
+      handleOnSubmit,
+      handleOnInvalidSubmit,
+    ]
+  );
 
   /**
    * Effect to handle changes in form values.
@@ -209,12 +523,64 @@ const useSchemaForm = <TFieldValues extends FieldValues>(
     if (enableConditionalRendering) {
       onChangeRemoveValidationCheck<TFieldValues>(
         schema,
-        formValues,
+        conditionValues,
         setCanRemoveValidationForFields
       );
-      updateFieldVisibility<TFieldValues>(schema, formValues, setVisibleFields);
+      updateFieldVisibility<TFieldValues>(
+        schema,
+        conditionValues as DeepPartialSkipArrayKey<TFieldValues>,
+        setVisibleFields
+      );
+
+      // Errors of fields that became hidden or waived are no longer reported by the resolver.
+      const waivedFields = getWaivedFields(
+        schema,
+        conditionValues,
+        sections
+      ).filter((key) => get(formMethods.formState.errors, key));
+      if (waivedFields.length) {
+        formMethods.clearErrors(waivedFields as Path<TFieldValues>[]);
+      }
+
+      // Fields hidden since the last change with the "reset" policy get their default value back.
+      // Fields hidden at mount keep their initial value.
+      const hiddenKeys = getHiddenFields(schema, conditionValues, sections)
+        .filter(
+          (field) => (field.hiddenValuePolicy ?? hiddenValuePolicy) === "reset"
+        )
+        .map((field) => field.key);
+      const previousKeys = hiddenFieldsRef.current ?? hiddenKeys;
+      hiddenKeys
+        .filter((key) => !previousKeys.includes(key))
+        .forEach((key) => formMethods.resetField(key));
+      hiddenFieldsRef.current = hiddenKeys;
     }
-  }, [formValues, schema, enableConditionalRendering]);
+  }, [
+    conditionValues,
+    schema,
+    sections,
+    formMethods,
+    hiddenValuePolicy,
+    enableConditionalRendering,
+  ]);
+
+  /**
+   * Effect to reload the options of the fields whose `optionsDependsOn` fields changed,
+   * whether or not the fields are rendered.
+   */
+  useEffect(() => {
+    const dependencies = getOptionDependencies(schema, formValues);
+    const previousDependencies = optionDependenciesRef.current;
+    optionDependenciesRef.current = new Map(
+      dependencies.map(({ key, dependencyKey }) => [key, dependencyKey])
+    );
+    dependencies.forEach(({ key, field, dependencyKey }) => {
+      const previousKey = previousDependencies?.get(key);
+      if (previousKey !== undefined && previousKey !== dependencyKey) {
+        reloadFieldOptions(key, field);
+      }
+    });
+  }, [formValues, schema, reloadFieldOptions]);
 
   /**
    * Effect to handle persistence of form responses in storage.
@@ -228,10 +594,7 @@ const useSchemaForm = <TFieldValues extends FieldValues>(
   }, [formValues, formKey, persistFormResponse]);
 
   /** Use Enter key to submit the form. */
-  useEnterKeySubmit(
-    formMethods.handleSubmit(handleOnSubmit, handleOnInvalidSubmit),
-    formKey
-  );
+  useEnterKeySubmit(submitForm, formKey);
 
   /**
    * Renders fields in a flexible layout (e.g., grid).
@@ -245,7 +608,11 @@ const useSchemaForm = <TFieldValues extends FieldValues>(
     ...props
   }: RenderFlexFieldsProps) => {
     const fields = schema.map((field) => {
-      if (visibleFields.has(field.key)) {
+      if (
+        visibleFields.has(field.key) &&
+        wizard.isFieldInCurrentStep(field.key)
+      ) {
+        const { required, disabled, readOnly } = fieldStates[field.key];
         return (
           <div
             key={field.key}
@@ -258,17 +625,32 @@ const useSchemaForm = <TFieldValues extends FieldValues>(
             }
             className={field.className}
           >
-            {field.render ? (
+            {field.fields ? (
+              <BareFieldArray
+                formItem={field}
+                formMethods={formMethods}
+                formDisabled={!!formDisabled}
+                disabled={disabled}
+                enableConditionalRendering={enableConditionalRendering}
+                submitButtonLoading={submitButtonLoading}
+              />
+            ) : field.render ? (
               field.render({
                 formMethods,
                 formItem: field,
                 formErrors: formMethods.formState.errors,
                 formDisabled: formDisabled ? true : false,
+                disabled: !!formDisabled || disabled,
+                readOnly,
+                required,
                 submitButtonLoading: submitButtonLoading,
               })
             ) : (
               <input
                 placeholder={field.placeholder}
+                disabled={!!formDisabled || disabled}
+                readOnly={readOnly}
+                aria-required={required}
                 {...formMethods.register(field.key)}
               />
             )}
@@ -317,12 +699,7 @@ const useSchemaForm = <TFieldValues extends FieldValues>(
     return (
       <div style={style}>
         {header ? header : <h2>{formLabel}</h2>}
-        <form
-          onSubmit={formMethods.handleSubmit(
-            handleOnSubmit,
-            handleOnInvalidSubmit
-          )}
-        >
+        <form onSubmit={submitForm}>
           {renderFields
             ? renderFields({
                 fluid: fluid ? true : false,
@@ -338,21 +715,37 @@ const useSchemaForm = <TFieldValues extends FieldValues>(
                 columns: columns || 1,
                 gap: gap || "16px",
               })}
+          {formErrors.length > 0 && (
+            <ul role="alert">
+              {formErrors.map((message) => (
+                <li key={message}>{message}</li>
+              ))}
+            </ul>
+          )}
           {footer ? (
             footer
           ) : (
-            <button
-              type="submit"
-              style={
-                submitButtonStyle || !fluid
-                  ? submitButtonStyle
-                  : { marginTop: "5rem" }
-              }
-            >
-              {submitButtonLoading
-                ? submitButtonLoader ?? "Loader..."
-                : submitButtonText ?? "Submit"}
-            </button>
+            <>
+              {!wizard.isFirstStep && (
+                <button type="button" onClick={wizard.back}>
+                  Back
+                </button>
+              )}
+              <button
+                type="submit"
+                style={
+                  submitButtonStyle || !fluid
+                    ? submitButtonStyle
+                    : { marginTop: "5rem" }
+                }
+              >
+                {!wizard.isLastStep
+                  ? "Next"
+                  : submitButtonLoading
+                  ? submitButtonLoader ?? "Loader..."
+                  : submitButtonText ?? "Submit"}
+              </button>
+            </>
           )}
         </form>
       </div>
@@ -370,18 +763,42 @@ const useSchemaForm = <TFieldValues extends FieldValues>(
     formDescription,
     /** The fields schema in the form. */
     formFields: schema,
+    /** The sections grouping the fields of the form. */
+    formSections: sections ?? [],
+    /** The tabs the fields of the form are laid out in. */
+    formTabs: tabs ?? [],
+    /** The identifier of the active tab. */
+    activeTab,
+    /** Shows a tab. */
+    setActiveTab,
     /** Methods from react-hook-form for managing the form state. */
     formMethods,
     /** The set of visible fields in the form. */
     visibleFields,
+    /** The required, disabled and read-only states of the fields. */
+    fieldStates,
+    /** Whether fields and sections are shown according to their display conditions. */
+    enableConditionalRendering,
+    /** The values the conditions are evaluated on. */
+    conditionValues,
     /** Whether the submit button is loading. */
     submitButtonLoading,
     /** Whether the form is disabled. */
     formDisabled: !!formDisabled,
+    /** Field type components supplied to this form. */
+    fieldTypes: fieldTypes ?? {},
+    /** The keys of the fields whose async validation is in progress. */
+    validatingFields,
+    /** The form-level errors of the last submission. */
+    formErrors,
     /** Handler for form submission. */
     handleOnSubmit,
     /** Handler for invalid form submission. */
     handleOnInvalidSubmit,
+    /** Validates and submits the form, or the current step of a multi-step form. */
+    submitForm,
+    /** The state and navigation of the form's steps. */
+    wizard,
     /** Function to render fields in a flexible layout. */
     renderFlexFields,
     /** Function to render the entire form. */
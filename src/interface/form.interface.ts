@@ -10,8 +10,10 @@ import {
   CriteriaMode,
   DeepPartialSkipArrayKey,
   FieldError,
+  ControllerRenderProps,
 } from "react-hook-form";
 import { z, ZodTypeAny } from "zod";
+import { Locale } from "date-fns";
 
 export type ZodSchemaObject<T> = Record<keyof T, ZodTypeAny>;
 
@@ -36,6 +38,8 @@ export interface IFieldSchema<TFieldValues extends FieldValues> {
   defaultValue?: TFieldValues[Path<TFieldValues>];
   /** Whether the field is disabled. */
   disabled?: boolean;
+  /** Whether the field is read-only: its value is shown and submitted but cannot be edited. */
+  readOnly?: boolean;
   /** Validation schema for the field using Zod. */
   validations?: z.ZodType<TFieldValues[Path<TFieldValues>], any>;
   /** CSS styles for the field. */
@@ -48,21 +52,590 @@ export interface IFieldSchema<TFieldValues extends FieldValues> {
     | "textarea"
     | "select"
     | "multi-select"
+    | "table-select"
+    | "date"
+    | "date-range"
+    | "datetime"
+    | "file"
+    | "otp"
+    | "array"
     | "radio group"
     | "boolean"
+    | "checkbox"
+    | "switch"
+    | "slider"
+    | "toggle group"
     | string;
-  /** Options for select, multi-select, or radio group fields. */
-  options?: Array<{ label: string; value: string | number }>;
+  /** Options for select, multi-select, or radio group fields, or a loader fetching them asynchronously. */
+  options?: FieldOption[] | AsyncOptionsLoader<TFieldValues>;
+  /** Delay in milliseconds before an async options search is sent (default is 300). */
+  optionsDebounce?: number;
+  /** Fields whose values the options loader depends on; the options are reloaded when they change. */
+  optionsDependsOn?: Path<TFieldValues>[];
+  /** How a value that is no longer among the reloaded options is handled (default is "clear"). */
+  onInvalidOption?: "clear" | "revalidate";
   /** Table select field options*/
   data?: Array<Record<string, any>>;
-  /** Conditions for displaying the field based on other field values. */
-  displayConditions?: DisplayCondition<TFieldValues>[];
-  /** Conditions for removing validation from the field based on other field values. */
-  removeValidationConditions?: ValidationCondition<TFieldValues>[];
+  /** Configuration for table select fields rendering `data`. */
+  tableConfig?: TableSelectConfig;
+  /** Configuration for date, date-range and datetime fields. */
+  dateConfig?: DateFieldConfig;
+  /** Configuration for file fields. */
+  fileConfig?: FileFieldConfig;
+  /** Configuration for one-time-password fields. */
+  otpConfig?: OtpFieldConfig;
+  /**
+   * Sub-schema of a repeatable field group; the field's value becomes an array of items.
+   * Sub-field keys and display conditions are relative to the item.
+   */
+  fields?: IFieldSchema<any>[];
+  /** Configuration for repeatable field groups. */
+  arrayConfig?: FieldArrayConfig;
+  /** Async validation of the field's value, such as checking that a username is available. */
+  asyncValidation?: AsyncFieldValidator<TFieldValues>;
+  /** Delay in milliseconds after the last change before the async validation runs (default is 500). */
+  asyncValidationDebounce?: number;
+  /** Conditions for displaying the field based on other field values. All must be met; use `all`, `any` and `not` groups to combine them otherwise. */
+  displayConditions?: ConditionNode<DisplayCondition<TFieldValues>>[];
+  /** Conditions for removing validation from the field based on other field values, combined like `displayConditions`. */
+  removeValidationConditions?: ConditionNode<
+    ValidationCondition<TFieldValues>
+  >[];
+  /**
+   * Conditions making the field required, combined like `displayConditions`.
+   * While they are met an empty value is rejected; otherwise an empty value is accepted, whatever the validation.
+   */
+  requiredConditions?: ConditionNode<FieldCondition<TFieldValues>>[];
+  /** Conditions disabling the field, combined like `displayConditions`. */
+  disabledConditions?: ConditionNode<FieldCondition<TFieldValues>>[];
+  /** Conditions making the field read-only, combined like `displayConditions`. */
+  readOnlyConditions?: ConditionNode<FieldCondition<TFieldValues>>[];
+  /** What happens to the field's value while it is hidden, overriding the form's `hiddenValuePolicy`. */
+  hiddenValuePolicy?: HiddenValuePolicy;
   /** Custom render function for the field. */
   render?: FieldRenderFunction<TFieldValues>;
 }
 
+/**
+ * Interface representing an option of a select, multi-select, radio group or toggle group field.
+ */
+export interface FieldOption {
+  /** The text displayed for the option. */
+  label: string;
+  /** The value stored when the option is selected. */
+  value: string | number;
+}
+
+/**
+ * Interface representing a page of options returned by an async options loader.
+ */
+export interface AsyncOptionsResult {
+  /** The options of the requested page. */
+  options: FieldOption[];
+  /** Whether more pages are available for the query. */
+  hasMore?: boolean;
+}
+
+/**
+ * Type representing a function that loads the options of a field, asynchronously or from the current form values.
+ * @template TFieldValues - The type of field values.
+ */
+export type AsyncOptionsLoader<TFieldValues extends FieldValues> = (params: {
+  /** The search text entered by the user. */
+  query: string;
+  /** The zero-based page to load. */
+  page: number;
+  /** The current form values. */
+  formValues: TFieldValues;
+}) => Promise<AsyncOptionsResult> | AsyncOptionsResult;
+
+/**
+ * Interface representing the return value of the useFieldOptions hook.
+ */
+export interface UseFieldOptionsReturn {
+  /** The options to display, filtered by the search text. */
+  options: FieldOption[];
+  /** Whether the options are loaded by an async loader. */
+  isAsync: boolean;
+  /** Whether a page of options is being loaded. */
+  loading: boolean;
+  /** The error message of the last failed load, if any. */
+  error?: string;
+  /** Whether more pages of options can be loaded. */
+  hasMore: boolean;
+  /** The current search text. */
+  search: string;
+  /** Updates the search text; async loads are debounced. */
+  setSearch: (search: string) => void;
+  /** Loads the next page of options. */
+  loadMore: () => void;
+  /** Retries the last failed load. */
+  retry: () => void;
+  /** Returns the label of an option value, including options loaded for earlier searches. */
+  getOptionLabel: (value: string | number) => string | undefined;
+}
+
+/**
+ * Interface representing a column of a table select field.
+ */
+export interface TableSelectColumn {
+  /** The row property shown in the column. */
+  key: string;
+  /** The column header; defaults to the key. */
+  label?: string;
+  /** Whether the rows can be sorted by this column (default is true). */
+  sortable?: boolean;
+  /** Custom render function for the column's cells. */
+  render?: (row: Record<string, any>) => React.ReactNode;
+}
+
+/**
+ * Interface representing the configuration of a table select field.
+ */
+export interface TableSelectConfig {
+  /** The columns of the table; defaults to the properties of the first row. */
+  columns?: TableSelectColumn[];
+  /** The row property stored as the field value (default is "id"). */
+  valueKey?: string;
+  /** Whether multiple rows can be selected, storing an array of values. */
+  multiple?: boolean;
+  /** Whether to show the text filter above the table (default is true). */
+  filterable?: boolean;
+  /** Placeholder text for the filter input. */
+  filterPlaceholder?: string;
+}
+
+/**
+ * Interface representing the configuration of a date, date-range or datetime field.
+ */
+export interface DateFieldConfig {
+  /** The date-fns locale used to format the value and localize the calendar. */
+  locale?: Locale;
+  /** The date-fns format string for the displayed value (default is "PPP", or "PPP p" for datetime). */
+  displayFormat?: string;
+}
+
+/**
+ * Interface representing the value of a date-range field.
+ */
+export interface DateRangeValue {
+  /** The first day of the range. */
+  from?: Date;
+  /** The last day of the range. */
+  to?: Date;
+}
+
+/**
+ * Interface representing the configuration of a file field.
+ * Size, MIME type and count limits are validated through `fileValidation`.
+ */
+export interface FileFieldConfig {
+  /** Value of the file input's `accept` attribute (e.g. "image/*,.pdf"). */
+  accept?: string;
+  /** Whether multiple files can be selected; defaults to whether the validation is an array. */
+  multiple?: boolean;
+  /** Whether to show previews of image files (default is true). */
+  showPreviews?: boolean;
+  /** Called for each added file, e.g. to upload it; report progress from 0 to 100 through `onProgress`. */
+  onUpload?: (
+    file: File,
+    onProgress: (progress: number) => void
+  ) => Promise<void> | void;
+}
+
+/**
+ * Interface representing the configuration of a one-time-password field.
+ */
+export interface OtpFieldConfig {
+  /** Number of characters; defaults to the ZodString `.length()` / `.max()`, or 6. */
+  length?: number;
+  /** Characters accepted in each slot (default is "numeric"). */
+  pattern?: "numeric" | "alphanumeric" | "alphabetic";
+  /** Sizes of the slot groups, separated by a separator (e.g. [3, 3]); defaults to a single group. */
+  groups?: number[];
+  /** Whether to submit the form once every slot is filled. */
+  autoSubmit?: boolean;
+}
+
+/**
+ * Interface representing the configuration of a repeatable field group.
+ * The minimum and maximum number of items are read from the field's ZodArray validation.
+ */
+export interface FieldArrayConfig {
+  /** Text of the button adding an item (default is "Add"). */
+  addButtonText?: string;
+  /** Label of each item, followed by its position (e.g. "Phone" -> "Phone 1"). */
+  itemLabel?: string;
+  /** Whether items can be moved up and down (default is true). */
+  reorderable?: boolean;
+}
+
+/**
+ * Interface representing the return value of the useSchemaFieldArray hook.
+ */
+export interface UseSchemaFieldArrayReturn {
+  /** The items of the field array, with the `id` to use as their key. */
+  items: Array<Record<"id", string>>;
+  /** Appends an item built from the sub-fields' default values. */
+  addItem: () => void;
+  /** Removes the item at an index. */
+  removeItem: (index: number) => void;
+  /** Moves an item from one index to another. */
+  moveItem: (from: number, to: number) => void;
+  /** Whether another item can be added without exceeding the maximum. */
+  canAdd: boolean;
+  /** Whether an item can be removed without going below the minimum. */
+  canRemove: boolean;
+  /** Returns the full path of a sub-field of an item (e.g. "phones.0.number"). */
+  getItemFieldName: (index: number, subKey: string) => string;
+  /** Whether a sub-field of an item is shown: with conditional rendering, when it passes its display conditions. */
+  isItemFieldVisible: (index: number, subField: IFieldSchema<any>) => boolean;
+  /** Returns the required, disabled and read-only states of a sub-field of an item. */
+  getItemFieldStates: (
+    index: number,
+    subField: IFieldSchema<any>
+  ) => FieldStates;
+  /** The error message of the array itself (e.g. too few items), if any. */
+  errorMessage?: string;
+}
+
+/**
+ * Interface representing a step of a multi-step form.
+ * @template TFieldValues - The type of field values.
+ */
+export interface FormStep<TFieldValues extends FieldValues> {
+  /** The unique identifier of the step. */
+  id: string;
+  /** The title of the step, shown in the step indicator. */
+  title?: string;
+  /** A brief description of the step. */
+  description?: string;
+  /** The keys of the schema fields shown and validated in this step. */
+  fields: Path<TFieldValues>[];
+  /** Conditions for the step to be part of the form; a step failing them is skipped. */
+  displayConditions?: ConditionNode<DisplayCondition<TFieldValues>>[];
+}
+
+/**
+ * Interface representing a section grouping schema fields under a title.
+ * @template TFieldValues - The type of field values.
+ */
+export interface FieldSection<TFieldValues extends FieldValues> {
+  /** The unique identifier of the section. */
+  id: string;
+  /** The title of the section, rendered as its legend. */
+  title?: string;
+  /** A brief description of the section. */
+  description?: string;
+  /** The keys of the schema fields in this section. */
+  fields: Path<TFieldValues>[];
+  /** Whether the section can be collapsed. */
+  collapsible?: boolean;
+  /** Whether a collapsible section starts collapsed. */
+  defaultCollapsed?: boolean;
+  /** Conditions for displaying the whole section based on other field values. */
+  displayConditions?: ConditionNode<DisplayCondition<TFieldValues>>[];
+}
+
+/**
+ * Interface representing a tab of a tabbed form layout.
+ * @template TFieldValues - The type of field values.
+ */
+export interface FieldTab<TFieldValues extends FieldValues> {
+  /** The unique identifier of the tab. */
+  id: string;
+  /** The title of the tab, shown in its trigger. */
+  title: string;
+  /** The keys of the schema fields in this tab. */
+  fields: Path<TFieldValues>[];
+}
+
+/**
+ * Interface representing the state and navigation of a multi-step form.
+ * A form without steps behaves as a single step showing every field.
+ * @template TFieldValues - The type of field values.
+ */
+export interface UseFormWizardReturn<TFieldValues extends FieldValues> {
+  /** The steps of the form. */
+  steps: FormStep<TFieldValues>[];
+  /** The index of the current step. */
+  currentStepIndex: number;
+  /** The current step, if the form has steps. */
+  currentStep?: FormStep<TFieldValues>;
+  /** The indexes of the visited steps, ending with the current one. */
+  history: number[];
+  /** Whether the current step is the first one visited. */
+  isFirstStep: boolean;
+  /** Whether no active step follows the current one, so the form is submitted from it. */
+  isLastStep: boolean;
+  /** Validates the current step and moves to the next active one. Resolves to whether it moved. */
+  next: () => Promise<boolean>;
+  /** Returns to the previously visited step. */
+  back: () => void;
+  /**
+   * Moves to a step. Visited steps are always reachable; moving forward validates every active step on
+   * the way and stops at the first invalid one. Resolves to whether the target step was reached.
+   */
+  goToStep: (index: number) => Promise<boolean>;
+  /** Whether a step passes its display conditions with the current values. */
+  isStepActive: (index: number) => boolean;
+  /** Whether a schema field belongs to the current step. */
+  isFieldInCurrentStep: (key: string) => boolean;
+  /** The keys of the fields that only belong to skipped steps, left out of validation and of the submitted values. */
+  skippedFields: Path<TFieldValues>[];
+}
+
+/**
+ * Interface representing the options of a file validation.
+ */
+export interface FileValidationOptions {
+  /** Whether multiple files are accepted, validating an array of files. */
+  multiple?: boolean;
+  /** Whether a file must be selected (default is true). */
+  required?: boolean;
+  /** Maximum size of each file, in bytes. */
+  maxSize?: number;
+  /** Accepted MIME types, wildcards ("image/*") or extensions (".pdf"). */
+  accept?: string[];
+  /** Minimum number of files, for multiple file fields. */
+  minFiles?: number;
+  /** Maximum number of files, for multiple file fields. */
+  maxFiles?: number;
+}
+
+/**
+ * Type representing the overrides applied to the fields generated from a Zod object, keyed by field path.
+ * Sub-fields of repeatable groups are keyed by the group's path followed by the sub-field key (e.g. "phones.number").
+ * @template TFieldValues - The type of field values.
+ */
+export type ZodFieldOverrides<TFieldValues extends FieldValues> = {
+  [TKey in Path<TFieldValues> | (string & Record<never, never>)]?: Partial<
+    IFieldSchema<TFieldValues>
+  >;
+};
+
+/**
+ * Interface representing the subset of a JSON Schema (draft-07 or 2020-12) document understood by
+ * `importJsonSchema` and produced by `exportJsonSchema`.
+ */
+export interface JsonSchema {
+  $schema?: string;
+  $id?: string;
+  $ref?: string;
+  $defs?: Record<string, JsonSchema>;
+  definitions?: Record<string, JsonSchema>;
+  type?: JsonSchemaType | JsonSchemaType[];
+  title?: string;
+  description?: string;
+  default?: JsonValue;
+  const?: JsonValue;
+  enum?: JsonValue[];
+  oneOf?: JsonSchema[];
+  anyOf?: JsonSchema[];
+  format?: string;
+  minLength?: number;
+  maxLength?: number;
+  pattern?: string;
+  minimum?: number;
+  maximum?: number;
+  exclusiveMinimum?: number;
+  exclusiveMaximum?: number;
+  multipleOf?: number;
+  items?: JsonSchema;
+  minItems?: number;
+  maxItems?: number;
+  uniqueItems?: boolean;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean | JsonSchema;
+}
+
+/**
+ * Type representing the primitive types of JSON Schema.
+ */
+export type JsonSchemaType =
+  | "string"
+  | "number"
+  | "integer"
+  | "boolean"
+  | "array"
+  | "object"
+  | "null";
+
+/**
+ * Type representing a value that can be written to JSON.
+ */
+export type JsonValue =
+  | string
+  | number
+  | boolean
+  | null
+  | JsonValue[]
+  | { [key: string]: JsonValue };
+
+/**
+ * Interface representing declarative validation rules, turned into a Zod validation when a JSON schema is loaded.
+ */
+export interface JsonValidationRules {
+  /** The type of value validated; inferred from the field type when omitted. */
+  valueType?:
+    | "string"
+    | "number"
+    | "boolean"
+    | "date"
+    | "date-range"
+    | "array"
+    | "file";
+  /** Whether a value is required; a required string must not be empty and a required boolean must be true. */
+  required?: boolean;
+  /** Minimum number, string length, number of items or files, or earliest date (as an ISO string). */
+  min?: number | string;
+  /** Maximum number, string length, number of items or files, or latest date (as an ISO string). */
+  max?: number | string;
+  /** Regular expression a string must match. */
+  pattern?: string;
+  /** Whether a string must be an email address. */
+  email?: boolean;
+  /** Whether a string must be a URL. */
+  url?: boolean;
+  /** Whether a number must be an integer. */
+  integer?: boolean;
+  /** The allowed values, or the allowed items of an array. */
+  enum?: Array<string | number>;
+  /** Maximum size of each file, in bytes. */
+  maxSize?: number;
+  /** Accepted MIME types, wildcards or extensions of files. */
+  accept?: string[];
+  /** Whether several files are accepted. */
+  multiple?: boolean;
+  /** Custom error messages by rule. */
+  messages?: Partial<
+    Record<
+      | "required"
+      | "type"
+      | "min"
+      | "max"
+      | "pattern"
+      | "email"
+      | "url"
+      | "integer"
+      | "enum",
+      string
+    >
+  >;
+}
+
+/**
+ * Interface representing a field of a JSON form definition.
+ * It mirrors `IFieldSchema` without functions: the validation is declared with rules
+ * and the type name is resolved through the field type registry.
+ */
+export interface JsonFieldSchema {
+  /** The key or path for the field within the form values. */
+  key: string;
+  /** The label for the field, displayed in the form UI. */
+  label?: string;
+  /** A brief description of the field's purpose. */
+  description?: string;
+  /** Help text providing additional information about the field. */
+  helpText?: string;
+  /** AutoComplete attribute for the field. */
+  autoComplete?: string;
+  /** Placeholder text for the field. */
+  placeholder?: string;
+  /** Default value for the field; dates are written as ISO strings. */
+  defaultValue?: JsonValue;
+  /** Whether the field is disabled. */
+  disabled?: boolean;
+  /** Whether the field is read-only. */
+  readOnly?: boolean;
+  /** CSS styles for the field. */
+  style?: Record<string, string | number>;
+  /** CSS class name for the field. */
+  className?: string;
+  /** The type of the field, resolved through the field type registry. */
+  type?: string;
+  /** Options for select, multi-select, radio group and toggle group fields. */
+  options?: FieldOption[];
+  /** Rows of a table select field. */
+  data?: Array<Record<string, JsonValue>>;
+  /** Configuration for table select fields, without cell render functions. */
+  tableConfig?: Omit<TableSelectConfig, "columns"> & {
+    columns?: Omit<TableSelectColumn, "render">[];
+  };
+  /** Configuration for date fields, without a locale. */
+  dateConfig?: Omit<DateFieldConfig, "locale">;
+  /** Configuration for file fields, without an upload handler. */
+  fileConfig?: Omit<FileFieldConfig, "onUpload">;
+  /** Configuration for one-time-password fields. */
+  otpConfig?: OtpFieldConfig;
+  /** Sub-schema of a repeatable field group. */
+  fields?: JsonFieldSchema[];
+  /** Configuration for repeatable field groups. */
+  arrayConfig?: FieldArrayConfig;
+  /** Declarative validation rules of the field. */
+  validation?: JsonValidationRules;
+  /** Conditions for displaying the field based on other field values. */
+  displayConditions?: ConditionNode<DisplayCondition<any>>[];
+  /** Conditions for removing validation from the field based on other field values. */
+  removeValidationConditions?: ConditionNode<ValidationCondition<any>>[];
+  /** Conditions making the field required. */
+  requiredConditions?: ConditionNode<FieldCondition<any>>[];
+  /** Conditions disabling the field. */
+  disabledConditions?: ConditionNode<FieldCondition<any>>[];
+  /** Conditions making the field read-only. */
+  readOnlyConditions?: ConditionNode<FieldCondition<any>>[];
+  /** What happens to the field's value while it is hidden. */
+  hiddenValuePolicy?: HiddenValuePolicy;
+}
+
+/**
+ * Interface representing a form definition that can be stored as JSON,
+ * loaded with `loadFormSchema` and produced with `serializeFormSchema`.
+ */
+export interface JsonFormSchema {
+  /** The unique identifier for the form. */
+  formSlug: string;
+  /** The label or title of the form. */
+  formLabel: string;
+  /** A brief description of the form. */
+  formDescription?: string;
+  /** The fields of the form. */
+  fields: JsonFieldSchema[];
+  /** Steps of a multi-step form. */
+  steps?: FormStep<any>[];
+  /** Sections grouping the fields. */
+  sections?: FieldSection<any>[];
+  /** Tabs the fields are laid out in. */
+  tabs?: FieldTab<any>[];
+  /** Whether the form is disabled. */
+  formDisabled?: boolean;
+  /** Whether to enable conditional rendering of fields. */
+  enableConditionalRendering?: boolean;
+  /** What happens to the values of hidden fields. */
+  hiddenValuePolicy?: HiddenValuePolicy;
+  /** Whether to enable validations. */
+  enableValidations?: boolean;
+  /** Validation mode (when validations are triggered). */
+  validationMode?: ValidationMode;
+  /** Re-validation mode (when re-validations are triggered). */
+  reValidateMode?: ReValidateMode;
+  /** Criteria mode for validation. */
+  criteriaMode?: CriteriaMode;
+  /** Where to persist form responses. */
+  persistFormResponse?: "localStorage" | "sessionStorage";
+}
+
+/**
+ * Interface representing the result of serializing a form to JSON.
+ */
+export interface SerializeFormSchemaResult {
+  /** The JSON form definition, with every field that can be represented. */
+  schema: JsonFormSchema;
+  /** The fields left out, with the reason they cannot be represented. */
+  skippedFields: Array<{ key: string; reason: string }>;
+}
+
 /**
  * Interface representing the properties of the form schema.
  * @template TFieldValues - The type of field values.
@@ -90,6 +663,11 @@ export interface ISchemaFormProps<TFieldValues extends FieldValues> {
   formDisabled?: boolean;
   /** Whether to enable conditional rendering of fields. */
   enableConditionalRendering?: boolean;
+  /**
+   * What happens to the values of fields hidden by their display conditions or those of their section
+   * (default is "keep"). Fields can override it with their own `hiddenValuePolicy`.
+   */
+  hiddenValuePolicy?: HiddenValuePolicy;
   /** Whether to enable validations. */
   enableValidations?: boolean;
   /** Validation mode (when validations are triggered). */
@@ -108,6 +686,16 @@ export interface ISchemaFormProps<TFieldValues extends FieldValues> {
   onInvalidSubmit?: SubmitErrorHandler<TFieldValues>;
   /** Callback for handling form changes. */
   onChange?: FormChangeHandler<TFieldValues>;
+  /** Form-level validation for rules spanning several fields, such as a matching password confirmation. */
+  formValidation?: FormValidation<TFieldValues>;
+  /** Field type components for this form, merged over the registered field types. */
+  fieldTypes?: Record<string, FieldTypeComponent<TFieldValues>>;
+  /** Steps of a multi-step form. Each step shows and validates its own fields. */
+  steps?: FormStep<TFieldValues>[];
+  /** Sections grouping the fields under titled, optionally collapsible fieldsets. */
+  sections?: FieldSection<TFieldValues>[];
+  /** Tabs the fields are laid out in. Every field stays mounted and is validated together. */
+  tabs?: FieldTab<TFieldValues>[];
 }
 
 /**
@@ -125,18 +713,45 @@ export interface FormixFormProviderType<TFieldValues extends FieldValues> {
   formDescription?: string;
   /** The fields schema in the form. */
   formFields: IFieldSchema<TFieldValues>[];
+  /** The sections grouping the fields of the form. */
+  formSections: FieldSection<TFieldValues>[];
+  /** The tabs the fields of the form are laid out in. */
+  formTabs: FieldTab<TFieldValues>[];
+  /** The identifier of the active tab. */
+  activeTab?: string;
+  /** Shows a tab. */
+  setActiveTab: (id: string) => void;
   /** Methods from react-hook-form for managing the form state. */
   formMethods: UseFormReturn<TFieldValues>;
   /** The set of visible fields in the form. */
   visibleFields: Set<Path<TFieldValues>>;
+  /** The required, disabled and read-only states of the fields, by field key. */
+  fieldStates: Record<string, FieldStates>;
+  /** Whether fields and sections are shown according to their display conditions. */
+  enableConditionalRendering: boolean;
+  /** The values the conditions are evaluated on, without the stripped values of hidden fields. */
+  conditionValues: Record<string, any>;
   /** Whether the form is disabled. */
   formDisabled: boolean;
   /** Whether the submit button is loading. */
   submitButtonLoading: boolean;
+  /** Field type components supplied to this form. */
+  fieldTypes: Record<string, FieldTypeComponent<TFieldValues>>;
+  /** The keys of the fields whose async validation is in progress. */
+  validatingFields: Set<string>;
+  /** The form-level errors of the last submission. */
+  formErrors: string[];
   /** Handler for form submission. */
   handleOnSubmit: FormSubmitHandler<TFieldValues>;
   /** Handler for invalid form submission. */
   handleOnInvalidSubmit: SubmitErrorHandler<TFieldValues>;
+  /**
+   * Validates and submits the form, as the submit button and the Enter key do.
+   * In a multi-step form, any step but the last is validated and left for the next one instead.
+   */
+  submitForm: (event?: React.BaseSyntheticEvent) => Promise<void>;
+  /** The state and navigation of the form's steps. */
+  wizard: UseFormWizardReturn<TFieldValues>;
   /** Function to render fields in a flexible layout. */
   renderFlexFields: (props: RenderFlexFieldsProps) => JSX.Element;
   /** Function to render the entire form. */
@@ -197,18 +812,45 @@ export interface UseSchemaFormReturn<TFieldValues extends FieldValues> {
   formDescription?: string;
   /** The fields schema in the form. */
   formFields: IFieldSchema<TFieldValues>[];
+  /** The sections grouping the fields of the form. */
+  formSections: FieldSection<TFieldValues>[];
+  /** The tabs the fields of the form are laid out in. */
+  formTabs: FieldTab<TFieldValues>[];
+  /** The identifier of the active tab. */
+  activeTab?: string;
+  /** Shows a tab. */
+  setActiveTab: (id: string) => void;
   /** Methods from react-hook-form for managing the form state. */
   formMethods: UseFormReturn<TFieldValues>;
   /** The set of visible fields in the form. */
   visibleFields: Set<Path<TFieldValues>>;
+  /** The required, disabled and read-only states of the fields, by field key. */
+  fieldStates: Record<string, FieldStates>;
+  /** Whether fields and sections are shown according to their display conditions. */
+  enableConditionalRendering: boolean;
+  /** The values the conditions are evaluated on, without the stripped values of hidden fields. */
+  conditionValues: Record<string, any>;
   /** Whether the submit button is loading. */
   submitButtonLoading: boolean;
   /** Whether the form is disabled. */
   formDisabled: boolean;
+  /** Field type components supplied to this form. */
+  fieldTypes: Record<string, FieldTypeComponent<TFieldValues>>;
+  /** The keys of the fields whose async validation is in progress. */
+  validatingFields: Set<string>;
+  /** The form-level errors of the last submission. */
+  formErrors: string[];
   /** Handler for form submission. */
   handleOnSubmit: FormSubmitHandler<TFieldValues>;
   /** Handler for invalid form submission. */
   handleOnInvalidSubmit: SubmitErrorHandler<TFieldValues>;
+  /**
+   * Validates and submits the form, as the submit button and the Enter key do.
+   * In a multi-step form, any step but the last is validated and left for the next one instead.
+   */
+  submitForm: (event?: React.BaseSyntheticEvent) => Promise<void>;
+  /** The state and navigation of the form's steps. */
+  wizard: UseFormWizardReturn<TFieldValues>;
   /** Function to render fields in a flexible layout. */
   renderFlexFields: (props: RenderFlexFieldsProps) => JSX.Element;
   /** Function to render the entire form. */
@@ -251,6 +893,19 @@ export interface FormBodyProps {
   >;
 }
 
+/**
+ * Interface representing the properties of the step navigation of a multi-step form.
+ */
+export interface FormStepNavigationProps
+  extends React.HTMLAttributes<HTMLDivElement> {
+  /** Text of the button moving to the previous step (default is "Back"). */
+  backText?: React.ReactNode;
+  /** Text of the button moving to the next step (default is "Next"). */
+  nextText?: React.ReactNode;
+  /** Text of the button submitting the form on the last step (default is "Submit"). */
+  submitText?: React.ReactNode;
+}
+
 /**
  * Interface representing the context value of an individual form field.
  * @template TFieldValues - The type of field values.
@@ -317,6 +972,40 @@ export type AsyncDefaultValues<TFieldValues> = (
  */
 export type FormSubmitHandler<TFieldValues> = (
   values: TFieldValues
+) => Promise<FormSubmitError | void> | FormSubmitError | void;
+
+/**
+ * Interface representing errors of a rejected submission, such as a backend validation failure.
+ * Returned or thrown by `onSubmit`, the field errors are shown under their fields and the form errors
+ * in `FormErrorMessage`.
+ */
+export interface FormSubmitError {
+  /** Error messages by field path (e.g. "address.city"). */
+  fieldErrors?: Record<string, string>;
+  /** Error messages about the whole form. */
+  formErrors?: string[];
+}
+
+/**
+ * Type representing an async validation of a field's value.
+ * Resolves to an error message when the value is rejected; any other result accepts it.
+ * The signal is aborted when the value changes before the check completes.
+ * @template TFieldValues - The type of field values.
+ */
+export type AsyncFieldValidator<TFieldValues extends FieldValues> = (
+  value: any,
+  params: { formValues: TFieldValues; signal: AbortSignal }
+) => Promise<string | boolean | undefined | void>;
+
+/**
+ * Type representing a form-level validation, run over the whole form values as a Zod `superRefine`.
+ * Issues are added with `ctx.addIssue` and attached to the field named by their `path`
+ * (e.g. `{ code: "custom", path: ["confirmPassword"], message: "Passwords do not match" }`).
+ * @template TFieldValues - The type of field values.
+ */
+export type FormValidation<TFieldValues> = (
+  values: TFieldValues,
+  ctx: z.RefinementCtx
 ) => Promise<void> | void;
 
 /**
@@ -363,10 +1052,73 @@ export type FieldRenderFunction<TFieldValues extends FieldValues> = (data: {
   formErrors: FieldErrors<TFieldValues>;
   /** Whether the form is disabled. */
   formDisabled: boolean;
+  /** Whether the field is disabled, by itself, its conditions or the form. */
+  disabled: boolean;
+  /** Whether the field is read-only, by itself or its conditions. */
+  readOnly: boolean;
+  /** Whether the field is required. */
+  required: boolean;
   /** Whether the submit button is loading. */
   submitButtonLoading?: boolean;
 }) => React.ReactNode;
 
+/**
+ * Interface representing the accessibility attributes FieldControl forwards to a control.
+ */
+export interface FieldControlProps {
+  /** The ID for the control element. */
+  id?: string;
+  /** The IDs of the elements describing the control. */
+  "aria-describedby"?: string;
+  /** Whether the control is invalid. */
+  "aria-invalid"?: boolean;
+}
+
+/**
+ * Interface representing the properties passed to a field type component.
+ * @template TFieldValues - The type of field values.
+ */
+export interface FieldTypeProps<TFieldValues extends FieldValues = FieldValues>
+  extends FieldControlProps {
+  /** The field bindings (value, onChange, onBlur, ref) from react-hook-form's Controller. */
+  field: ControllerRenderProps<TFieldValues, Path<TFieldValues>>;
+  /** The schema definition of the form field. */
+  formItem: IFieldSchema<TFieldValues>;
+  /** Methods from react-hook-form for managing the form state. */
+  formMethods: UseFormReturn<TFieldValues>;
+  /** Whether the control should be rendered as disabled. */
+  disabled: boolean;
+  /** Whether the control should be rendered as read-only. */
+  readOnly: boolean;
+}
+
+/**
+ * Interface representing the states of a field driven by its properties and conditions.
+ */
+export interface FieldStates {
+  /** Whether the field must have a value. */
+  required: boolean;
+  /** Whether the field is disabled. */
+  disabled: boolean;
+  /** Whether the field is read-only. */
+  readOnly: boolean;
+}
+
+/**
+ * Type representing a component that renders the control for a field type.
+ * @template TFieldValues - The type of field values.
+ */
+export type FieldTypeComponent<TFieldValues extends FieldValues = FieldValues> =
+  React.ComponentType<FieldTypeProps<TFieldValues>>;
+
+/**
+ * Type representing what happens to the value of a hidden field.
+ * - "keep": the value stays in the form state, is submitted and still counts for the conditions of other fields.
+ * - "reset": the value is reset to the field's default value when the field is hidden.
+ * - "strip": the value stays in the form state but is left out of the submitted values and ignored by the conditions of other fields.
+ */
+export type HiddenValuePolicy = "keep" | "reset" | "strip";
+
 /**
  * Type representing the validation mode.
  */
@@ -383,32 +1135,98 @@ export type ValidationMode =
 export type ReValidateMode = "onBlur" | "onChange" | "onSubmit";
 
 /**
- * Interface representing a condition for displaying a field based on other field values.
+ * Type representing the built-in condition operators.
+ * - `===`, `!==`, `<`, `<=`, `>`, `>=`: compare the value with `dependentFieldValue`.
+ * - `in`, `notIn`: whether the value is one of the values of the `dependentFieldValue` array.
+ * - `contains`: whether the array or string value contains `dependentFieldValue`.
+ * - `matches`: whether the value matches the `dependentFieldValue` regular expression (a RegExp or a pattern string).
+ * - `isEmpty`, `isNotEmpty`: whether the value is undefined, null, an empty string or an empty array.
+ * - `between`: whether the number or date value lies within the `[min, max]` of `dependentFieldValue`, inclusive.
+ * - `before`, `after`, `sameDay`: compare the date value with the `dependentFieldValue` date (a Date, ISO string or timestamp).
+ */
+export type ConditionOperatorName =
+  | "==="
+  | "!=="
+  | "<"
+  | "<="
+  | ">"
+  | ">="
+  | "in"
+  | "notIn"
+  | "contains"
+  | "matches"
+  | "isEmpty"
+  | "isNotEmpty"
+  | "between"
+  | "before"
+  | "after"
+  | "sameDay";
+
+/**
+ * Type representing a condition operator, built in or registered with `registerConditionOperator`.
+ * @param fieldValue - The value of the dependent field.
+ * @param conditionValue - The `dependentFieldValue` of the condition.
+ * @param formValues - The values of the form.
+ * @returns Whether the condition is met.
+ */
+export type ConditionOperator = (
+  fieldValue: any,
+  conditionValue: any,
+  formValues: Record<string, any>
+) => boolean;
+
+/**
+ * Interface representing a condition on the value of another field.
  * @template TFieldValues - The type of field values.
  */
-export interface DisplayCondition<TFieldValues extends FieldValues> {
+export interface FieldCondition<TFieldValues extends FieldValues> {
   /** The dependent field whose value will determine the condition. */
   dependentField: Path<TFieldValues>;
-  /** The operator used to compare the dependent field's value. */
-  operator: "===" | "!==" | "<" | "<=" | ">" | ">=";
-  /** The value of the dependent field to compare against. */
-  dependentFieldValue: TFieldValues[Path<TFieldValues>];
+  /** The operator used to compare the dependent field's value: a built-in operator or the name of a registered one. */
+  operator: ConditionOperatorName | (string & Record<never, never>);
+  /**
+   * The value to compare the dependent field's value against, if the operator takes one:
+   * a value of the field, a list of them (`in`, `notIn`, `between`), or a pattern (`matches`) or date string.
+   */
+  dependentFieldValue?:
+    | TFieldValues[Path<TFieldValues>]
+    | TFieldValues[Path<TFieldValues>][]
+    | RegExp
+    | string;
+}
+
+/**
+ * Interface representing a condition for displaying a field based on other field values.
+ * @template TFieldValues - The type of field values.
+ */
+export interface DisplayCondition<TFieldValues extends FieldValues>
+  extends FieldCondition<TFieldValues> {
   /** The logical relation of the condition (e.g., "and"). */
   relation?: "and";
 }
 
 /**
- * Interface representing a condition for removing validation from a field based on other field values.
+ * Type representing a group of conditions: met when `all` of them are met, when `any` of them is met,
+ * or when the `not` condition is not met. Groups can be nested.
+ * @template TCondition - The type of the conditions.
+ */
+export type ConditionGroup<TCondition> =
+  | { all: ConditionNode<TCondition>[] }
+  | { any: ConditionNode<TCondition>[] }
+  | { not: ConditionNode<TCondition> };
+
+/**
+ * Type representing a single condition or a group of conditions.
+ * @template TCondition - The type of the conditions.
+ */
+export type ConditionNode<TCondition> = TCondition | ConditionGroup<TCondition>;
+
+/**
+ * Type representing a condition for removing validation from a field based on other field values.
  * @template TFieldValues - The type of field values.
  */
-export interface ValidationCondition<TFieldValues extends FieldValues> {
-  /** The dependent field whose value will determine the condition. */
-  dependentField: Path<TFieldValues>;
-  /** The operator used to compare the dependent field's value. */
-  operator: "===" | "!==" | "<" | "<=" | ">" | ">=";
-  /** The value of the dependent field to compare against. */
-  dependentFieldValue: TFieldValues[Path<TFieldValues>];
-}
+export type ValidationCondition<TFieldValues extends FieldValues> =
+  FieldCondition<TFieldValues>;
 
 /**
  * Type representing the theme options.
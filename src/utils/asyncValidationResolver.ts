@@ -0,0 +1,59 @@
+import { FieldErrors, FieldValues, Resolver, get, set } from "react-hook-form";
+import { IFieldSchema } from "../interface/form.interface";
+
+/**
+ * Outcome of the last async validation of a field.
+ */
+export interface AsyncValidationResult {
+  /** The validated value, serialized to detect later changes. */
+  value: string;
+  /** The error message, if the value was rejected. */
+  message?: string;
+}
+
+/**
+ * Serializes a field value to compare it with the value of an async validation result.
+ * @param {unknown} value - The field value.
+ * @returns {string} - The serialized value.
+ */
+export const serializeValue = (value: unknown): string =>
+  JSON.stringify(value) ?? "";
+
+/**
+ * Wraps a resolver so that the results of the fields' async validations are kept in the errors,
+ * as long as the field's value has not changed since and its own validation passes.
+ * @template TFieldValues - The type of field values.
+ * @param {Resolver<TFieldValues>} resolver - The resolver to wrap.
+ * @param {IFieldSchema<TFieldValues>[]} schema - The fields of the form.
+ * @param {Map<string, AsyncValidationResult>} results - The async validation results by field key.
+ * @returns {Resolver<TFieldValues>} - The wrapped resolver.
+ */
+export const asyncValidationResolver =
+  <TFieldValues extends FieldValues>(
+    resolver: Resolver<TFieldValues>,
+    schema: IFieldSchema<TFieldValues>[],
+    results: Map<string, AsyncValidationResult>
+  ): Resolver<TFieldValues> =>
+  async (values, context, options) => {
+    const result = await resolver(values, context, options);
+    const errors: Record<string, any> = { ...result.errors };
+    let hasAsyncErrors = false;
+
+    schema.forEach((field) => {
+      const asyncResult = results.get(field.key);
+      if (
+        !field.asyncValidation ||
+        !asyncResult?.message ||
+        get(errors, field.key) ||
+        asyncResult.value !== serializeValue(get(values, field.key))
+      ) {
+        return;
+      }
+      set(errors, field.key, { type: "async", message: asyncResult.message });
+      hasAsyncErrors = true;
+    });
+
+    return hasAsyncErrors
+      ? { values: result.values, errors: errors as FieldErrors<TFieldValues> }
+      : result;
+  };
@@ -0,0 +1,223 @@
+import { z, ZodTypeAny } from "zod";
+import { JsonValidationRules } from "../interface/form.interface";
+import { declareValidationRules } from "./declaredRules";
+import { fileValidation } from "./fileValidation";
+import { toDate } from "./toDate";
+
+type ValueType = NonNullable<JsonValidationRules["valueType"]>;
+
+/**
+ * Infers the type of value a field stores from its type and sub-fields.
+ * @param {object} field - The field, from a JSON form definition or a form schema.
+ * @returns {ValueType} - The value type validated by the field's rules.
+ */
+export const inferValueType = (field: {
+  type?: string;
+  fields?: unknown[];
+  tableConfig?: { multiple?: boolean };
+}): ValueType => {
+  if (field.fields) return "array";
+  switch (field.type) {
+    case "number":
+    case "slider":
+      return "number";
+    case "boolean":
+    case "checkbox":
+    case "switch":
+      return "boolean";
+    case "date":
+    case "datetime":
+      return "date";
+    case "date-range":
+      return "date-range";
+    case "multi-select":
+      return "array";
+    case "file":
+      return "file";
+    case "table-select":
+      return field.tableConfig?.multiple ? "array" : "string";
+    default:
+      return "string";
+  }
+};
+
+/**
+ * Validates a value against a list of allowed values.
+ * @param {Array<string | number>} values - The allowed values.
+ * @param {string} [message] - The error message.
+ * @returns {ZodTypeAny} - A ZodEnum for string values, or a refined string or number validation otherwise.
+ */
+export const enumValidation = (
+  values: Array<string | number>,
+  message?: string
+): ZodTypeAny => {
+  if (values.length && values.every((value) => typeof value === "string")) {
+    return z.enum(values as [string, ...string[]], {
+      errorMap: () => ({ message: message ?? "Select a valid option" }),
+    });
+  }
+  return z
+    .union([z.string(), z.number()])
+    .refine((value) => values.includes(value), {
+      message: message ?? "Select a valid option",
+    });
+};
+
+const toNumber = (value?: number | string) =>
+  value === undefined ? undefined : Number(value);
+
+const buildStringValidation = (rules: JsonValidationRules): ZodTypeAny => {
+  const { required, messages = {} } = rules;
+  if (rules.enum) {
+    const schema = enumValidation(rules.enum, messages.enum);
+    return required ? schema : schema.or(z.literal("")).optional();
+  }
+
+  let schema = z.string({
+    required_error: messages.required ?? "Required",
+    invalid_type_error: messages.type,
+  });
+  const min = toNumber(rules.min) ?? (required ? 1 : undefined);
+  if (min !== undefined) {
+    schema = schema.min(
+      min,
+      rules.min === undefined ? messages.required ?? "Required" : messages.min
+    );
+  }
+  if (rules.max !== undefined) {
+    schema = schema.max(Number(rules.max), messages.max);
+  }
+  if (rules.pattern) {
+    schema = schema.regex(new RegExp(rules.pattern), messages.pattern);
+  }
+  if (rules.email) schema = schema.email(messages.email);
+  if (rules.url) schema = schema.url(messages.url);
+
+  // Optional text fields hold an empty string once cleared.
+  return required ? schema : schema.or(z.literal("")).optional();
+};
+
+const buildNumberValidation = (rules: JsonValidationRules): ZodTypeAny => {
+  const { required, messages = {} } = rules;
+  let schema = z.number({
+    required_error: messages.required ?? "Required",
+    invalid_type_error: messages.type ?? "Enter a number",
+  });
+  if (rules.integer) schema = schema.int(messages.integer);
+  if (rules.min !== undefined) {
+    schema = schema.min(Number(rules.min), messages.min);
+  }
+  if (rules.max !== undefined) {
+    schema = schema.max(Number(rules.max), messages.max);
+  }
+  const validation = rules.enum
+    ? schema.refine((value) => rules.enum?.includes(value), {
+        message: messages.enum ?? "Select a valid option",
+      })
+    : schema;
+  return required ? validation : validation.optional();
+};
+
+const buildDateValidation = (rules: JsonValidationRules) => {
+  const { messages = {} } = rules;
+  let schema = z.date({
+    required_error: messages.required ?? "Required",
+    invalid_type_error: messages.type ?? "Enter a valid date",
+  });
+  const min = toDate(rules.min);
+  const max = toDate(rules.max);
+  if (min) schema = schema.min(min, messages.min);
+  if (max) schema = schema.max(max, messages.max);
+  return schema;
+};
+
+const buildArrayValidation = (
+  rules: JsonValidationRules,
+  itemSchema?: ZodTypeAny
+): ZodTypeAny => {
+  const { required, messages = {} } = rules;
+  let schema = z.array(
+    itemSchema ??
+      (rules.enum
+        ? enumValidation(rules.enum, messages.enum)
+        : z.union([z.string(), z.number()])),
+    {
+      required_error: messages.required ?? "Required",
+      invalid_type_error: messages.type,
+    }
+  );
+  const min = toNumber(rules.min) ?? (required ? 1 : undefined);
+  if (min !== undefined) {
+    schema = schema.min(
+      min,
+      rules.min === undefined ? messages.required ?? "Required" : messages.min
+    );
+  }
+  if (rules.max !== undefined) {
+    schema = schema.max(Number(rules.max), messages.max);
+  }
+  return required ? schema : schema.optional();
+};
+
+/**
+ * Builds the Zod validation of a field from declarative rules.
+ * The rules are recorded on the result, so `serializeFormSchema` can write them back unchanged.
+ * @param {JsonValidationRules} rules - The validation rules.
+ * @param {ValueType} valueType - The type of value validated, used when the rules do not set `valueType`.
+ * @param {ZodTypeAny} [itemSchema] - The validation of each item, for repeatable field groups.
+ * @returns {ZodTypeAny} - The Zod validation.
+ */
+export const buildValidation = (
+  rules: JsonValidationRules,
+  valueType: ValueType,
+  itemSchema?: ZodTypeAny
+): ZodTypeAny => {
+  const { required = false, messages = {} } = rules;
+  let schema: ZodTypeAny;
+
+  switch (rules.valueType ?? valueType) {
+    case "number":
+      schema = buildNumberValidation(rules);
+      break;
+    case "boolean":
+      schema = required
+        ? z.literal(true, {
+            errorMap: () => ({ message: messages.required ?? "Required" }),
+          })
+        : z.boolean().optional();
+      break;
+    case "date": {
+      const dateSchema = buildDateValidation(rules);
+      schema = required ? dateSchema : dateSchema.optional();
+      break;
+    }
+    case "date-range": {
+      const rangeSchema = z.object(
+        {
+          from: buildDateValidation(rules),
+          to: buildDateValidation(rules).optional(),
+        },
+        { required_error: messages.required ?? "Required" }
+      );
+      schema = required ? rangeSchema : rangeSchema.optional();
+      break;
+    }
+    case "array":
+      schema = buildArrayValidation(rules, itemSchema);
+      break;
+    case "file":
+      schema = fileValidation({
+        multiple: rules.multiple,
+        required,
+        maxSize: rules.maxSize,
+        accept: rules.accept,
+        minFiles: toNumber(rules.min),
+        maxFiles: toNumber(rules.max),
+      });
+      break;
+    default:
+      schema = buildStringValidation(rules);
+  }
+
+  return declareValidationRules(schema, rules);
+};
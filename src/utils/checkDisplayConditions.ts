@@ -0,0 +1,17 @@
+import { ConditionNode, DisplayCondition } from "@/interface/form.interface";
+import { FieldValues } from "react-hook-form";
+import { evaluateCondition } from "./conditionOperators";
+import { evaluateConditionTree } from "./evaluateConditionTree";
+
+export function checkDisplayConditions<TFieldValues extends FieldValues>(
+  conditions: ConditionNode<DisplayCondition<TFieldValues>>[] | undefined,
+  values: Record<string, any>
+): boolean {
+  if (!conditions) {
+    return true;
+  }
+
+  return conditions.every((condition) =>
+    evaluateConditionTree(condition, (item) => evaluateCondition(item, values))
+  );
+}
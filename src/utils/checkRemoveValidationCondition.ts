@@ -1,37 +1,23 @@
-import { ValidationCondition } from "@/interface/form.interface";
+import { ConditionNode, ValidationCondition } from "@/interface/form.interface";
 import { FieldValues } from "react-hook-form";
+import { evaluateCondition } from "./conditionOperators";
+import { evaluateConditionTree } from "./evaluateConditionTree";
 
 export function checkRemoveValidationCondition<
   TFieldValues extends FieldValues
 >(
-  data?: ValidationCondition<TFieldValues>[],
+  data?: ConditionNode<ValidationCondition<TFieldValues>>[],
   formResponse?: Record<string, any>
 ): boolean {
   if (!data || !formResponse) {
     return false;
   }
 
-  const canRemoveError = data.every((condition) => {
-    const { dependentField, operator, dependentFieldValue } = condition;
-    const actualValue = formResponse[dependentField];
-
-    switch (operator) {
-      case "===":
-        return actualValue === dependentFieldValue;
-      case "!==":
-        return actualValue !== dependentFieldValue;
-      case "<":
-        return actualValue < dependentFieldValue;
-      case "<=":
-        return actualValue <= dependentFieldValue;
-      case ">":
-        return actualValue > dependentFieldValue;
-      case ">=":
-        return actualValue >= dependentFieldValue;
-      default:
-        return false;
-    }
-  });
+  const canRemoveError = data.every((condition) =>
+    evaluateConditionTree(condition, (item) =>
+      evaluateCondition(item, formResponse)
+    )
+  );
 
   return canRemoveError;
 }
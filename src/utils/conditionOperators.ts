@@ -0,0 +1,159 @@
+import { get } from "react-hook-form";
+import { ConditionOperator, FieldCondition } from "../interface/form.interface";
+import { isEmptyValue } from "./isEmptyValue";
+import { toDate } from "./toDate";
+
+const includes = (values: unknown, value: unknown) =>
+  Array.isArray(values) && values.includes(value);
+
+/**
+ * Compares dates as timestamps; other values are compared as they are.
+ */
+const toComparable = (value: unknown, asDate: boolean): any =>
+  asDate ? toDate(value)?.getTime() : value;
+
+/**
+ * Compiled `matches` patterns keyed by their source, null for an invalid pattern.
+ */
+const compiledPatterns = new Map<string, RegExp | null>();
+
+/**
+ * Returns the regular expression of a `matches` condition, compiling pattern strings once.
+ * @param {unknown} pattern - A RegExp or a pattern string.
+ * @returns {RegExp | null} - The regular expression, or null if the pattern is invalid.
+ */
+const toRegExp = (pattern: unknown): RegExp | null => {
+  if (pattern instanceof RegExp) return pattern;
+  const source = String(pattern);
+  if (!compiledPatterns.has(source)) {
+    try {
+      compiledPatterns.set(source, new RegExp(source));
+    } catch {
+      compiledPatterns.set(source, null);
+    }
+  }
+  return compiledPatterns.get(source) ?? null;
+};
+
+const compareDates = (
+  fieldValue: unknown,
+  conditionValue: unknown,
+  compare: (a: Date, b: Date) => boolean
+) => {
+  const a = toDate(fieldValue);
+  const b = toDate(conditionValue);
+  return !!a && !!b && compare(a, b);
+};
+
+/**
+ * Condition operators keyed by `FieldCondition.operator`.
+ */
+const conditionOperators = new Map<string, ConditionOperator>([
+  ["===", (value, conditionValue) => value === conditionValue],
+  ["!==", (value, conditionValue) => value !== conditionValue],
+  ["<", (value, conditionValue) => value < conditionValue],
+  ["<=", (value, conditionValue) => value <= conditionValue],
+  [">", (value, conditionValue) => value > conditionValue],
+  [">=", (value, conditionValue) => value >= conditionValue],
+  ["in", (value, conditionValue) => includes(conditionValue, value)],
+  ["notIn", (value, conditionValue) => !includes(conditionValue, value)],
+  [
+    "contains",
+    (value, conditionValue) =>
+      Array.isArray(value)
+        ? value.includes(conditionValue)
+        : typeof value === "string" && value.includes(String(conditionValue)),
+  ],
+  [
+    "matches",
+    (value, conditionValue) =>
+      (typeof value === "string" || typeof value === "number") &&
+      !!toRegExp(conditionValue)?.test(String(value)),
+  ],
+  ["isEmpty", (value) => isEmptyValue(value)],
+  ["isNotEmpty", (value) => !isEmptyValue(value)],
+  [
+    "between",
+    (value, conditionValue) => {
+      if (!Array.isArray(conditionValue) || isEmptyValue(value)) return false;
+      const [min, max] = conditionValue;
+      const asDate = [value, min, max].some((item) => item instanceof Date);
+      const comparable = toComparable(value, asDate);
+      return (
+        comparable !== undefined &&
+        comparable >= toComparable(min, asDate) &&
+        comparable <= toComparable(max, asDate)
+      );
+    },
+  ],
+  [
+    "before",
+    (value, conditionValue) =>
+      compareDates(value, conditionValue, (a, b) => a < b),
+  ],
+  [
+    "after",
+    (value, conditionValue) =>
+      compareDates(value, conditionValue, (a, b) => a > b),
+  ],
+  [
+    "sameDay",
+    (value, conditionValue) =>
+      compareDates(
+        value,
+        conditionValue,
+        (a, b) => a.toDateString() === b.toDateString()
+      ),
+  ],
+]);
+
+/**
+ * Registers a condition operator, replacing any operator already registered under that name.
+ * @param {string} name - The operator name, matched against `FieldCondition.operator`.
+ * @param {ConditionOperator} operator - Evaluates the condition from the dependent field's value and the condition value.
+ */
+export const registerConditionOperator = (
+  name: string,
+  operator: ConditionOperator
+) => {
+  conditionOperators.set(name, operator);
+};
+
+/**
+ * Removes a registered condition operator.
+ * @param {string} name - The operator name.
+ */
+export const unregisterConditionOperator = (name: string) => {
+  conditionOperators.delete(name);
+};
+
+/**
+ * Checks whether a condition operator is built in or registered.
+ * @param {string} name - The operator name.
+ * @returns {boolean} - Whether the operator is available.
+ */
+export const isConditionOperatorRegistered = (name: string): boolean =>
+  conditionOperators.has(name);
+
+/**
+ * Evaluates a condition on the value of another field.
+ * Used for the display conditions of fields, sections and steps and for the conditions removing validation.
+ * @param {FieldCondition<any>} condition - The condition.
+ * @param {Record<string, any>} values - The form values.
+ * @returns {boolean} - Whether the condition is met; false for an unknown operator.
+ */
+export const evaluateCondition = (
+  condition: FieldCondition<any>,
+  values: Record<string, any>
+): boolean => {
+  const operator = conditionOperators.get(condition.operator);
+  if (!operator) {
+    console.error(`Unknown condition operator "${condition.operator}"`);
+    return false;
+  }
+  return operator(
+    get(values, condition.dependentField),
+    condition.dependentFieldValue,
+    values
+  );
+};
@@ -0,0 +1,31 @@
+import { ZodTypeAny } from "zod";
+import { JsonValidationRules } from "../interface/form.interface";
+
+/**
+ * Validation rules of the Zod validations built from declarative rules, such as those of
+ * `fileValidation` or of a loaded JSON schema, whose refinements cannot be read back from Zod.
+ */
+const declaredRules = new WeakMap<ZodTypeAny, JsonValidationRules>();
+
+/**
+ * Records the rules a Zod validation was built from, so it can be serialized back to them.
+ * @param {TSchema} schema - The Zod validation.
+ * @param {JsonValidationRules} rules - The rules it was built from.
+ * @returns {TSchema} - The same validation.
+ */
+export const declareValidationRules = <TSchema extends ZodTypeAny>(
+  schema: TSchema,
+  rules: JsonValidationRules
+): TSchema => {
+  declaredRules.set(schema, rules);
+  return schema;
+};
+
+/**
+ * Returns the rules a Zod validation was declared with.
+ * @param {ZodTypeAny} schema - The Zod validation.
+ * @returns {JsonValidationRules | undefined} - The rules, or undefined if none were declared.
+ */
+export const getDeclaredValidationRules = (
+  schema: ZodTypeAny
+): JsonValidationRules | undefined => declaredRules.get(schema);
@@ -0,0 +1,24 @@
+import { ConditionNode } from "../interface/form.interface";
+
+/**
+ * Evaluates a condition or a nested group of conditions.
+ * @template TCondition - The type of the conditions.
+ * @param {ConditionNode<TCondition>} node - The condition, or an `all`, `any` or `not` group.
+ * @param {(condition: TCondition) => boolean} check - Evaluates a single condition.
+ * @returns {boolean} - Whether the condition or group is met.
+ */
+export const evaluateConditionTree = <TCondition extends object>(
+  node: ConditionNode<TCondition>,
+  check: (condition: TCondition) => boolean
+): boolean => {
+  if ("all" in node && Array.isArray(node.all)) {
+    return node.all.every((child) => evaluateConditionTree(child, check));
+  }
+  if ("any" in node && Array.isArray(node.any)) {
+    return node.any.some((child) => evaluateConditionTree(child, check));
+  }
+  if ("not" in node && node.not) {
+    return !evaluateConditionTree(node.not, check);
+  }
+  return check(node as TCondition);
+};
@@ -0,0 +1,34 @@
+import { FieldValues, Resolver } from "react-hook-form";
+import { getErrorPaths } from "./getErrorPaths";
+import { omitFields } from "./omitFields";
+
+/**
+ * Creates a resolver leaving some fields out of validation, such as the fields of the steps
+ * skipped in a branching multi-step form, or the fields hidden or waived by their conditions.
+ * The resolver to wrap leaves them out of its schema, and the errors other rules add to them are ignored.
+ * @template TFieldValues - The type of field values.
+ * @param {(excludedKeys: string[]) => Resolver<TFieldValues>} getResolver - Returns the resolver to wrap,
+ * whose schema leaves out the given fields.
+ * @param {(values: TFieldValues) => string[]} getExcludedKeys - Returns the keys of the fields to leave out when validating the given values.
+ * @returns {Resolver<TFieldValues>} - The wrapped resolver.
+ */
+export const excludeFieldsResolver =
+  <TFieldValues extends FieldValues>(
+    getResolver: (excludedKeys: string[]) => Resolver<TFieldValues>,
+    getExcludedKeys: (values: TFieldValues) => string[]
+  ): Resolver<TFieldValues> =>
+  async (values, context, options) => {
+    const excludedKeys = getExcludedKeys(values);
+    const result = await getResolver(excludedKeys)(values, context, options);
+    if (!excludedKeys.length) {
+      return result;
+    }
+
+    const errors = omitFields(result.errors, excludedKeys);
+    if (getErrorPaths(errors).length) {
+      return { values: {}, errors };
+    }
+
+    // The wrapped resolvers keep the parsed values alongside the errors they add to the excluded fields.
+    return { values: result.values, errors: {} };
+  };
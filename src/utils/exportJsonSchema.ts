@@ -0,0 +1,242 @@
+import { FieldValues } from "react-hook-form";
+import { ZodFirstPartyTypeKind, ZodTypeAny } from "zod";
+import {
+  IFieldSchema,
+  JsonSchema,
+  JsonSchemaType,
+} from "../interface/form.interface";
+import { inferValueType } from "./buildValidation";
+import { generateDynamicSchema } from "./generateDynamicSchema";
+import { toJsonValue } from "./toJsonValue";
+
+const dialects = {
+  "draft-07": "http://json-schema.org/draft-07/schema#",
+  "2020-12": "https://json-schema.org/draft/2020-12/schema",
+};
+
+/**
+ * Adds "null" to the accepted types of a schema.
+ */
+const toNullable = (schema: JsonSchema): JsonSchema => {
+  if (!schema.type) return { anyOf: [schema, { type: "null" }] };
+  const types = ([] as JsonSchemaType[]).concat(schema.type);
+  return {
+    ...schema,
+    type: types.includes("null") ? types : [...types, "null"],
+  };
+};
+
+/**
+ * Converts a Zod validation to JSON Schema.
+ * Refinements and transforms cannot be represented and are left out.
+ * @returns The JSON Schema, and whether the value may be omitted.
+ */
+const toJsonSchema = (
+  validation: ZodTypeAny
+): { schema: JsonSchema; optional: boolean } => {
+  const def = validation._def;
+  switch (def.typeName) {
+    case ZodFirstPartyTypeKind.ZodOptional:
+      return { schema: toJsonSchema(def.innerType).schema, optional: true };
+    case ZodFirstPartyTypeKind.ZodDefault:
+      return {
+        schema: {
+          ...toJsonSchema(def.innerType).schema,
+          default: toJsonValue(def.defaultValue()),
+        },
+        optional: true,
+      };
+    case ZodFirstPartyTypeKind.ZodNullable: {
+      const inner = toJsonSchema(def.innerType);
+      return { ...inner, schema: toNullable(inner.schema) };
+    }
+    case ZodFirstPartyTypeKind.ZodEffects:
+      return toJsonSchema(def.schema);
+    case ZodFirstPartyTypeKind.ZodBranded:
+    case ZodFirstPartyTypeKind.ZodReadonly:
+    case ZodFirstPartyTypeKind.ZodCatch:
+      return toJsonSchema(def.innerType ?? def.type);
+    case ZodFirstPartyTypeKind.ZodPipeline:
+      return toJsonSchema(def.in);
+    case ZodFirstPartyTypeKind.ZodUnion: {
+      // Keep the empty string optional text fields accept, so submitted values still match.
+      const options = (def.options as ZodTypeAny[]).map(toJsonSchema);
+      return {
+        schema: { anyOf: options.map((option) => option.schema) },
+        optional: options.some((option) => option.optional),
+      };
+    }
+  }
+
+  const schema: JsonSchema = {};
+  switch (def.typeName) {
+    case ZodFirstPartyTypeKind.ZodString:
+      schema.type = "string";
+      for (const check of def.checks) {
+        if (check.kind === "min") schema.minLength = check.value;
+        if (check.kind === "max") schema.maxLength = check.value;
+        if (check.kind === "length") {
+          schema.minLength = check.value;
+          schema.maxLength = check.value;
+        }
+        if (check.kind === "regex") schema.pattern = check.regex.source;
+        if (check.kind === "email") schema.format = "email";
+        if (check.kind === "url") schema.format = "uri";
+        if (check.kind === "uuid") schema.format = "uuid";
+        if (check.kind === "datetime") schema.format = "date-time";
+      }
+      break;
+    case ZodFirstPartyTypeKind.ZodNumber:
+      schema.type = "number";
+      for (const check of def.checks) {
+        if (check.kind === "int") schema.type = "integer";
+        if (check.kind === "min") {
+          if (check.inclusive) schema.minimum = check.value;
+          else schema.exclusiveMinimum = check.value;
+        }
+        if (check.kind === "max") {
+          if (check.inclusive) schema.maximum = check.value;
+          else schema.exclusiveMaximum = check.value;
+        }
+        if (check.kind === "multipleOf") schema.multipleOf = check.value;
+      }
+      break;
+    case ZodFirstPartyTypeKind.ZodBoolean:
+      schema.type = "boolean";
+      break;
+    case ZodFirstPartyTypeKind.ZodLiteral:
+      schema.const = toJsonValue(def.value);
+      break;
+    case ZodFirstPartyTypeKind.ZodEnum:
+      schema.type = "string";
+      schema.enum = [...def.values];
+      break;
+    case ZodFirstPartyTypeKind.ZodNativeEnum:
+      // Numeric native enums also map their values back to their names.
+      schema.enum = Object.entries(def.values)
+        .filter(([key]) => typeof def.values[def.values[key]] !== "number")
+        .map(([, value]) => value as string | number);
+      break;
+    case ZodFirstPartyTypeKind.ZodDate:
+      // Dates are submitted as Date objects, which serialize to ISO date-times.
+      schema.type = "string";
+      schema.format = "date-time";
+      break;
+    case ZodFirstPartyTypeKind.ZodArray: {
+      const { minLength, maxLength, exactLength } = def;
+      schema.type = "array";
+      schema.items = toJsonSchema(def.type).schema;
+      if (exactLength ?? minLength) {
+        schema.minItems = (exactLength ?? minLength).value;
+      }
+      if (exactLength ?? maxLength) {
+        schema.maxItems = (exactLength ?? maxLength).value;
+      }
+      break;
+    }
+    case ZodFirstPartyTypeKind.ZodObject: {
+      const shape: Record<string, ZodTypeAny> = def.shape();
+      const required: string[] = [];
+      schema.type = "object";
+      schema.properties = Object.fromEntries(
+        Object.entries(shape).map(([key, property]) => {
+          const { schema: propertySchema, optional } = toJsonSchema(property);
+          if (!optional) required.push(key);
+          return [key, propertySchema];
+        })
+      );
+      if (required.length) schema.required = required;
+      break;
+    }
+  }
+  return { schema, optional: false };
+};
+
+/**
+ * Returns the JSON Schema type of a field without validation, inferred from its field type.
+ */
+const inferJsonSchema = (field: IFieldSchema<any>): JsonSchema => {
+  switch (inferValueType(field)) {
+    case "number":
+      return { type: "number" };
+    case "boolean":
+      return { type: "boolean" };
+    case "date":
+      return { type: "string", format: "date-time" };
+    case "array":
+      return { type: "array" };
+    case "string":
+      return { type: "string" };
+    default:
+      // Date ranges and files are not constrained.
+      return {};
+  }
+};
+
+/**
+ * Adds the titles, descriptions, defaults and options of the fields to the properties of an object schema.
+ */
+const describeProperties = (
+  schema: JsonSchema,
+  fields: IFieldSchema<any>[]
+) => {
+  fields.forEach((field) => {
+    const segments = field.key.split(".");
+    const name = segments.pop() as string;
+    let node = schema;
+    for (const segment of segments) {
+      node.properties ??= {};
+      node = node.properties[segment] ??= { type: "object" };
+    }
+    node.properties ??= {};
+    const property = (node.properties[name] ??= inferJsonSchema(field));
+
+    if (field.label) property.title = field.label;
+    if (field.description) property.description = field.description;
+    if (field.defaultValue !== undefined && property.default === undefined) {
+      property.default = toJsonValue(field.defaultValue);
+    }
+    // Options describe the value choice of an optional text field, not the empty string.
+    const value =
+      property.anyOf?.length === 2 &&
+      property.anyOf.some((choice) => choice.const === "")
+        ? property.anyOf.find((choice) => choice.const !== "")!
+        : property;
+    const target = value.type === "array" ? (value.items ??= {}) : value;
+    if (Array.isArray(field.options) && !target.enum && !target.anyOf) {
+      target.enum = field.options.map((option) => option.value);
+    }
+    if (field.fields) {
+      describeProperties((property.items ??= { type: "object" }), field.fields);
+    }
+  });
+};
+
+/**
+ * Exports the fields of a form as a JSON Schema describing the submitted values, so that a backend can
+ * validate the same contract. The Zod validations are converted to JSON Schema keywords, and the labels,
+ * descriptions, defaults and static options of the fields are added as titles, descriptions, defaults and enums.
+ * Refinements, transforms and form-level validation cannot be represented and are left out.
+ * @template TFieldValues - The type of field values.
+ * @param {IFieldSchema<TFieldValues>[]} fields - The fields of the form.
+ * @param {object} [options] - The title and description of the schema, and the JSON Schema dialect (2020-12 by default).
+ * @returns {JsonSchema} - The JSON Schema of the form values.
+ */
+export const exportJsonSchema = <TFieldValues extends FieldValues>(
+  fields: IFieldSchema<TFieldValues>[],
+  options: {
+    title?: string;
+    description?: string;
+    dialect?: keyof typeof dialects;
+  } = {}
+): JsonSchema => {
+  const { title, description, dialect = "2020-12" } = options;
+  const schema: JsonSchema = {
+    $schema: dialects[dialect],
+    title,
+    description,
+    ...toJsonSchema(generateDynamicSchema(fields)).schema,
+  };
+  describeProperties(schema, fields);
+  return JSON.parse(JSON.stringify(schema));
+};
@@ -0,0 +1,45 @@
+import { FieldValues } from "react-hook-form";
+import { FieldTypeComponent } from "../interface/form.interface";
+
+/**
+ * Field type components keyed by `IFieldSchema.type`.
+ * The field components register the built-in types; apps add their own with `registerFieldType`.
+ */
+const fieldTypeRegistry = new Map<string, FieldTypeComponent<any>>();
+
+/**
+ * Registers a component for a field type, replacing any component already registered under that name.
+ * @param {string} type - The field type name, matched against `IFieldSchema.type`.
+ * @param {FieldTypeComponent<TFieldValues>} component - The component rendering the field's control.
+ */
+export const registerFieldType = <TFieldValues extends FieldValues>(
+  type: string,
+  component: FieldTypeComponent<TFieldValues>
+) => {
+  fieldTypeRegistry.set(type, component);
+};
+
+/**
+ * Removes the component registered for a field type.
+ * @param {string} type - The field type name.
+ */
+export const unregisterFieldType = (type: string) => {
+  fieldTypeRegistry.delete(type);
+};
+
+/**
+ * Checks whether a component is registered for a field type.
+ * @param {string} type - The field type name.
+ * @returns {boolean} - Whether the registry has a component for the type.
+ */
+export const isFieldTypeRegistered = (type: string): boolean =>
+  fieldTypeRegistry.has(type);
+
+/**
+ * Returns the component registered for a field type.
+ * @param {string} type - The field type name.
+ * @returns {FieldTypeComponent<TFieldValues> | undefined} - The component, if one is registered.
+ */
+export const getRegisteredFieldType = <TFieldValues extends FieldValues>(
+  type: string
+): FieldTypeComponent<TFieldValues> | undefined => fieldTypeRegistry.get(type);
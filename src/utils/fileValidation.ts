@@ -0,0 +1,118 @@
+import { z, ZodTypeAny } from "zod";
+import { FileValidationOptions } from "../interface/form.interface";
+import { declareValidationRules } from "./declaredRules";
+
+/**
+ * Formats a size in bytes for validation messages (e.g. 5242880 -> "5 MB").
+ * @param {number} bytes - The size in bytes.
+ * @returns {string} - The formatted size.
+ */
+export const formatBytes = (bytes: number): string => {
+  const units = ["B", "KB", "MB", "GB"];
+  let size = bytes;
+  let unit = 0;
+  while (size >= 1024 && unit < units.length - 1) {
+    size /= 1024;
+    unit++;
+  }
+  return `${Number(size.toFixed(1))} ${units[unit]}`;
+};
+
+/**
+ * Checks whether a file matches one of the accepted MIME types, wildcards or extensions.
+ * @param {File} file - The file to check.
+ * @param {string[]} accept - The accepted types.
+ * @returns {boolean} - Whether the file is accepted.
+ */
+export const isFileAccepted = (file: File, accept: string[]): boolean =>
+  accept.some((type) => {
+    const pattern = type.trim().toLowerCase();
+    if (pattern.startsWith(".")) {
+      return file.name.toLowerCase().endsWith(pattern);
+    }
+    if (pattern.endsWith("/*")) {
+      return file.type.toLowerCase().startsWith(pattern.slice(0, -1));
+    }
+    return file.type.toLowerCase() === pattern;
+  });
+
+/**
+ * Creates the Zod validation for a file field from size, MIME type and count limits.
+ * The result is used as the field's `validations`, so it is merged by `generateDynamicSchema` like any other field.
+ * @param {FileValidationOptions} [options] - The limits to validate.
+ * @returns {ZodTypeAny} - A `File` validation, or a `File[]` validation when `multiple` is set.
+ */
+export const fileValidation = (
+  options: FileValidationOptions = {}
+): ZodTypeAny => {
+  const {
+    multiple = false,
+    required = true,
+    maxSize,
+    accept,
+    minFiles,
+    maxFiles,
+  } = options;
+
+  const getFileIssue = (file: File): string | undefined => {
+    if (maxSize !== undefined && file.size > maxSize) {
+      return `${file.name} must be ${formatBytes(maxSize)} or smaller`;
+    }
+    if (accept?.length && !isFileAccepted(file, accept)) {
+      return `${file.name} must be one of: ${accept.join(", ")}`;
+    }
+    return undefined;
+  };
+
+  // Issues are reported on the field itself rather than on array items,
+  // so they show up in FieldErrorMessage for single and multiple fields alike.
+  const checkFiles = (files: File[], ctx: z.RefinementCtx) => {
+    files.forEach((file) => {
+      const message = getFileIssue(file);
+      if (message) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message });
+      }
+    });
+  };
+
+  const fileSchema = z.instanceof(File, { message: "Select a file" });
+  const rules = {
+    valueType: "file" as const,
+    multiple,
+    required,
+    maxSize,
+    accept,
+    min: minFiles,
+    max: maxFiles,
+  };
+
+  if (!multiple) {
+    const singleSchema = fileSchema.superRefine((file, ctx) =>
+      checkFiles([file], ctx)
+    );
+    return declareValidationRules(
+      required ? singleSchema : singleSchema.optional(),
+      rules
+    );
+  }
+
+  let filesSchema = z.array(fileSchema);
+  const min = minFiles ?? (required ? 1 : undefined);
+  if (min !== undefined) {
+    filesSchema = filesSchema.min(
+      min,
+      `Select at least ${min} file${min === 1 ? "" : "s"}`
+    );
+  }
+  if (maxFiles !== undefined) {
+    filesSchema = filesSchema.max(
+      maxFiles,
+      `Select at most ${maxFiles} file${maxFiles === 1 ? "" : "s"}`
+    );
+  }
+  const multipleSchema = filesSchema.superRefine(checkFiles);
+  return declareValidationRules(
+    required ? multipleSchema : multipleSchema.optional(),
+    rules
+  );
+};
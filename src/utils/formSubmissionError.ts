@@ -0,0 +1,30 @@
+import { FormSubmitError } from "../interface/form.interface";
+
+/**
+ * Error thrown from `onSubmit` to reject a submission with errors for its fields and for the whole form.
+ */
+export class FormSubmissionError extends Error implements FormSubmitError {
+  fieldErrors?: Record<string, string>;
+  formErrors?: string[];
+
+  constructor(
+    { fieldErrors, formErrors }: FormSubmitError,
+    message = "Form submission failed"
+  ) {
+    super(message);
+    this.name = "FormSubmissionError";
+    this.fieldErrors = fieldErrors;
+    this.formErrors = formErrors;
+  }
+}
+
+/**
+ * Checks whether a value returned or thrown by `onSubmit` describes a rejected submission.
+ * @param {unknown} value - The value returned or thrown by `onSubmit`.
+ * @returns {boolean} - Whether the value holds field or form errors.
+ */
+export const isFormSubmitError = (value: unknown): value is FormSubmitError =>
+  value instanceof FormSubmissionError ||
+  (!!value &&
+    typeof value === "object" &&
+    ("fieldErrors" in value || "formErrors" in value));
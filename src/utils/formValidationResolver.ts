@@ -0,0 +1,46 @@
+import { zodResolver } from "@hookform/resolvers/zod";
+import { FieldErrors, FieldValues, Resolver } from "react-hook-form";
+import { z } from "zod";
+import { FormValidation } from "../interface/form.interface";
+import { getErrorPaths } from "./getErrorPaths";
+import { mergeValues } from "./mergeValues";
+
+/**
+ * Wraps a resolver with a form-level validation receiving the whole form values.
+ * The form-level rule runs even when some fields are invalid, and the issues it adds are attached to
+ * the field paths they name; an error of the field's own validation takes precedence on the same path.
+ * @template TFieldValues - The type of field values.
+ * @param {Resolver<TFieldValues>} resolver - The resolver of the fields' own validations.
+ * @param {FormValidation<TFieldValues>} [formValidation] - The form-level validation.
+ * @returns {Resolver<TFieldValues>} - The wrapped resolver.
+ */
+export const formValidationResolver = <TFieldValues extends FieldValues>(
+  resolver: Resolver<TFieldValues>,
+  formValidation?: FormValidation<TFieldValues>
+): Resolver<TFieldValues> => {
+  if (!formValidation) {
+    return resolver;
+  }
+
+  const formResolver = zodResolver(
+    z.any().superRefine(formValidation)
+  ) as Resolver<TFieldValues>;
+
+  return async (values, context, options) => {
+    const [result, formResult] = await Promise.all([
+      resolver(values, context, options),
+      formResolver(values, context, options),
+    ]);
+    if (!getErrorPaths(formResult.errors).length) {
+      return result;
+    }
+
+    return {
+      values: result.values,
+      errors: mergeValues(
+        formResult.errors,
+        result.errors
+      ) as FieldErrors<TFieldValues>,
+    };
+  };
+};
@@ -1,18 +1,125 @@
 import { IFieldSchema, ZodSchemaObject } from "../interface/form.interface";
 import { FieldValues } from "react-hook-form";
-import { z, ZodSchema } from "zod";
+import { z, ZodSchema, ZodType, ZodTypeAny } from "zod";
+import { isEmptyValue } from "./isEmptyValue";
 
+/**
+ * Validations keyed by path segment, with nested objects for dotted paths.
+ */
+interface SchemaTree {
+  [key: string]: ZodTypeAny | SchemaTree;
+}
+
+const buildShape = (tree: SchemaTree): z.ZodRawShape =>
+  Object.fromEntries(
+    Object.entries(tree).map(([key, node]) => [
+      key,
+      node instanceof ZodType ? node : z.object(buildShape(node)),
+    ])
+  );
+
+/**
+ * Keys of the fields whose validation is relaxed, with the item index for sub-fields (e.g. "phones.0.number").
+ */
+interface RelaxedFields {
+  /** The fields left out of validation, such as hidden fields; their values are kept as they are. */
+  excluded?: string[];
+  /** The fields that also accept a missing value. */
+  optional?: string[];
+}
+
+/**
+ * Accepts a missing value besides the values the validation accepts:
+ * undefined, null, an empty string or array, or false for an unchecked box.
+ */
+const toOptional = (validations: ZodTypeAny): ZodTypeAny =>
+  validations
+    .optional()
+    .or(z.custom((value) => isEmptyValue(value) || value === false));
+
+/**
+ * Returns the relaxed fields below a path, with their keys relative to that path.
+ */
+const getRelaxedChildren = (
+  { excluded = [], optional = [] }: RelaxedFields,
+  path: string
+): Required<RelaxedFields> => {
+  const getChildKeys = (keys: string[]) =>
+    keys
+      .filter((key) => key.startsWith(`${path}.`))
+      .map((key) => key.slice(path.length + 1));
+  return { excluded: getChildKeys(excluded), optional: getChildKeys(optional) };
+};
+
+/**
+ * Builds the schema of a repeatable field group's items. Items with relaxed sub-fields get their own
+ * schema, and the other items share the schema of the sub-fields.
+ */
+const generateItemsSchema = <TFieldValues extends FieldValues>(
+  groupKey: string,
+  fields: IFieldSchema<TFieldValues>[],
+  relaxedFields: RelaxedFields
+): ZodTypeAny => {
+  const itemSchema = generateDynamicSchema(fields);
+  const { excluded, optional } = getRelaxedChildren(relaxedFields, groupKey);
+  const indices = [...excluded, ...optional].map((key) =>
+    Number(key.split(".")[0])
+  );
+  if (!indices.length) {
+    return z.array(itemSchema);
+  }
+
+  const items = Array.from({ length: Math.max(...indices) + 1 }, (_, index) =>
+    indices.includes(index)
+      ? generateDynamicSchema(
+          fields,
+          getRelaxedChildren(relaxedFields, `${groupKey}.${index}`)
+        )
+      : itemSchema
+  );
+  return z.tuple(items as [ZodTypeAny, ...ZodTypeAny[]]).rest(itemSchema);
+};
+
+/**
+ * Generates the Zod schema of the form from the validations of its fields.
+ * @template TFieldValues - The type of field values.
+ * @param {IFieldSchema<TFieldValues>[]} fields - The fields of the form.
+ * @param {RelaxedFields} [relaxedFields] - The fields left out of validation or accepting a missing value.
+ * The sub-fields of groups with their own `validations` are validated by them and cannot be relaxed.
+ * @returns {ZodSchema<ZodSchemaObject<TFieldValues>>} - The schema of the form values.
+ */
 export const generateDynamicSchema = <TFieldValues extends FieldValues>(
-  fields: IFieldSchema<TFieldValues>[]
+  fields: IFieldSchema<TFieldValues>[],
+  relaxedFields: RelaxedFields = {}
 ): ZodSchema<ZodSchemaObject<TFieldValues>> => {
-  const schemaObject: Partial<ZodSchemaObject<TFieldValues>> = {};
+  const tree: SchemaTree = {};
 
   fields.forEach((field) => {
-    if (field.validations) {
-      const key = field.key as keyof TFieldValues;
-      schemaObject[key] = field.validations;
+    // Repeatable field groups without their own validation validate each item with their sub-schema.
+    const fieldValidations =
+      field.validations ??
+      (field.fields &&
+        generateItemsSchema(field.key, field.fields, relaxedFields));
+    if (fieldValidations) {
+      const validations = relaxedFields.excluded?.includes(field.key)
+        ? z.any()
+        : relaxedFields.optional?.includes(field.key)
+        ? toOptional(fieldValidations)
+        : fieldValidations;
+      const segments = field.key.split(".");
+      const leaf = segments.pop() as string;
+      let node = tree;
+      for (const segment of segments) {
+        const child = node[segment];
+        // A validation declared on a parent path takes precedence over its children.
+        if (child instanceof ZodType) return;
+        node = (child as SchemaTree) ?? (node[segment] = {});
+      }
+      node[leaf] = validations;
     }
   });
 
-  return z.object(schemaObject as ZodSchemaObject<TFieldValues>);
+  return z.object(buildShape(tree)) as unknown as ZodSchema<
+    ZodSchemaObject<TFieldValues>
+  >;
 };
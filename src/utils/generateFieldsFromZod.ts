@@ -0,0 +1,161 @@
+import { z, ZodFirstPartyTypeKind, ZodTypeAny } from "zod";
+import {
+  FieldOption,
+  IFieldSchema,
+  ZodFieldOverrides,
+} from "../interface/form.interface";
+import { unwrapZodType } from "./getZodConstraints";
+import { toLabel } from "./toLabel";
+
+/**
+ * Returns the description set with `.describe()` on a Zod type or on one of its wrappers.
+ */
+const getDescription = (schema: ZodTypeAny): string | undefined => {
+  let current: ZodTypeAny | undefined = schema;
+  while (current) {
+    if (current.description) return current.description;
+    const def: Record<string, any> = current._def;
+    current = def.innerType ?? def.schema;
+  }
+  return undefined;
+};
+
+/**
+ * Returns the default value set with `.default()` on a Zod type or on one of its wrappers.
+ */
+const getDefaultValue = (schema: ZodTypeAny): unknown => {
+  let current: ZodTypeAny | undefined = schema;
+  while (current) {
+    const def: Record<string, any> = current._def;
+    if (def.typeName === ZodFirstPartyTypeKind.ZodDefault) {
+      return def.defaultValue();
+    }
+    current = def.innerType ?? def.schema;
+  }
+  return undefined;
+};
+
+/**
+ * Returns the values of a ZodEnum or ZodNativeEnum as options.
+ */
+const getEnumOptions = (schema: ZodTypeAny): FieldOption[] | undefined => {
+  const def = schema._def;
+  if (def.typeName === ZodFirstPartyTypeKind.ZodEnum) {
+    return (def.values as string[]).map((value) => ({ label: value, value }));
+  }
+  if (def.typeName === ZodFirstPartyTypeKind.ZodNativeEnum) {
+    // Numeric native enums also map their values back to their names.
+    return Object.entries(def.values as Record<string, string | number>)
+      .filter(([key]) => typeof def.values[def.values[key]] !== "number")
+      .map(([key, value]) => ({ label: key, value }));
+  }
+  return undefined;
+};
+
+/**
+ * Infers the field type and options of a Zod type.
+ */
+const inferField = (
+  schema: ZodTypeAny
+): Pick<IFieldSchema<any>, "type" | "options"> => {
+  const def = schema._def;
+  const options = getEnumOptions(schema);
+  if (options) return { type: "select", options };
+
+  switch (def.typeName) {
+    case ZodFirstPartyTypeKind.ZodString: {
+      const kinds = (def.checks as Array<{ kind: string }>).map(
+        (check) => check.kind
+      );
+      if (kinds.includes("email")) return { type: "email" };
+      if (kinds.includes("url")) return { type: "url" };
+      return { type: "text" };
+    }
+    case ZodFirstPartyTypeKind.ZodNumber:
+      return { type: "number" };
+    case ZodFirstPartyTypeKind.ZodBoolean:
+      return { type: "checkbox" };
+    case ZodFirstPartyTypeKind.ZodLiteral:
+      return def.value === true ? { type: "checkbox" } : { type: "text" };
+    case ZodFirstPartyTypeKind.ZodDate:
+      return { type: "date" };
+    case ZodFirstPartyTypeKind.ZodArray:
+      return {
+        type: "multi-select",
+        options: getEnumOptions(unwrapZodType(def.type)),
+      };
+    default:
+      return { type: "text" };
+  }
+};
+
+/**
+ * Generates the fields of an object's properties.
+ * The properties of an optional or nullable parent object are optional themselves.
+ */
+const generateFields = (
+  shape: z.ZodRawShape,
+  overrides: ZodFieldOverrides<any>,
+  prefix = "",
+  overridePrefix = "",
+  optional = false
+): IFieldSchema<any>[] =>
+  Object.entries(shape).flatMap(([name, schema]) => {
+    const key = `${prefix}${name}`;
+    const overrideKey = `${overridePrefix}${name}`;
+    const inner = unwrapZodType(schema);
+
+    // Nested objects are flattened into fields with dotted keys.
+    if (inner instanceof z.ZodObject) {
+      return generateFields(
+        inner.shape,
+        overrides,
+        `${key}.`,
+        `${overrideKey}.`,
+        optional || schema.isOptional() || schema.isNullable()
+      );
+    }
+
+    const field: IFieldSchema<any> = {
+      key,
+      label: getDescription(schema) ?? toLabel(name),
+      validations: optional ? schema.optional() : schema,
+      ...inferField(inner),
+    };
+    const defaultValue = getDefaultValue(schema);
+    if (defaultValue !== undefined) field.defaultValue = defaultValue;
+
+    // Arrays of objects become repeatable groups, whose sub-field keys are relative to the item.
+    const item =
+      inner instanceof z.ZodArray ? unwrapZodType(inner.element) : undefined;
+    if (item instanceof z.ZodObject) {
+      field.type = "array";
+      delete field.options;
+      field.fields = generateFields(
+        item.shape,
+        overrides,
+        "",
+        `${overrideKey}.`
+      );
+    }
+
+    return [{ ...field, ...overrides[overrideKey] }];
+  });
+
+/**
+ * Generates the fields of a form from a Zod object, so an existing contract does not have to be repeated.
+ * Each property keeps its Zod type as `validations`, so its optionality decides whether it is required.
+ * The field type is inferred from the Zod type, enum values become `options`, and `.describe()` sets the label.
+ * Nested objects are flattened into dotted keys, optional ones into optional fields,
+ * and arrays of objects become repeatable field groups.
+ * @template TSchema - The Zod object.
+ * @param {TSchema} schema - The Zod object describing the form values.
+ * @param {ZodFieldOverrides<z.infer<TSchema>>} [overrides] - Properties merged over the generated fields,
+ * keyed by field path, such as `render`, `type`, `style` or `className`.
+ * @returns {IFieldSchema<z.infer<TSchema>>[]} - The fields of the form.
+ */
+export const generateFieldsFromZod = <TSchema extends z.AnyZodObject>(
+  schema: TSchema,
+  overrides: ZodFieldOverrides<z.infer<TSchema>> = {}
+): IFieldSchema<z.infer<TSchema>>[] =>
+  generateFields(schema.shape, overrides) as IFieldSchema<z.infer<TSchema>>[];
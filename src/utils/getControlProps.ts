@@ -0,0 +1,16 @@
+import { FieldControlProps } from "../interface/form.interface";
+
+/**
+ * Picks the accessibility attributes forwarded by FieldControl from a field type component's props.
+ * @param {FieldControlProps} props - The field type component's props.
+ * @returns {FieldControlProps} - The attributes to spread onto the rendered control.
+ */
+export const getControlProps = ({
+  id,
+  "aria-describedby": ariaDescribedBy,
+  "aria-invalid": ariaInvalid,
+}: FieldControlProps): FieldControlProps => ({
+  id,
+  "aria-describedby": ariaDescribedBy,
+  "aria-invalid": ariaInvalid,
+});
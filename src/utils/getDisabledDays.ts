@@ -0,0 +1,34 @@
+import { endOfDay, startOfDay } from "date-fns";
+import { Matcher } from "react-day-picker";
+import { ZodTypeAny } from "zod";
+import { getZodConstraints } from "./getZodConstraints";
+
+/**
+ * Builds the calendar's disabled-day matchers from a date validation.
+ * Days before `.min()` and after `.max()` are disabled; with `validateDays`, any day the
+ * validation rejects at both its start and its end (e.g. a `.refine()` excluding weekends) is disabled as well.
+ * @param {ZodTypeAny} [schema] - The Zod validation of a single date.
+ * @param {boolean} [validateDays=false] - Whether to disable days failing the validation.
+ * @returns {Matcher[]} - The matchers to pass to the calendar's `disabled` prop.
+ */
+export const getDisabledDays = (
+  schema?: ZodTypeAny,
+  validateDays = false
+): Matcher[] => {
+  const { minDate, maxDate } = getZodConstraints(schema);
+  const matchers: Matcher[] = [];
+
+  if (minDate) matchers.push({ before: minDate });
+  if (maxDate) matchers.push({ after: maxDate });
+  if (schema && validateDays) {
+    // A day stays selectable if its start or its end passes, as bounds such as
+    // `.min(new Date())` fall within a day.
+    matchers.push(
+      (day: Date) =>
+        !schema.safeParse(startOfDay(day)).success &&
+        !schema.safeParse(endOfDay(day)).success
+    );
+  }
+
+  return matchers;
+};
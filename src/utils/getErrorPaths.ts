@@ -0,0 +1,19 @@
+import { FieldErrors, FieldValues } from "react-hook-form";
+
+/**
+ * Lists the dotted paths of the fields with errors, walking into nested objects and arrays.
+ * @param {FieldErrors<TFieldValues>} errors - The form validation errors.
+ * @param {string} [prefix] - The path of the errors object within the form.
+ * @returns {string[]} - The paths of the errors (e.g. "address.city").
+ */
+export const getErrorPaths = <TFieldValues extends FieldValues>(
+  errors: FieldErrors<TFieldValues> | Record<string, any>,
+  prefix = ""
+): string[] =>
+  Object.entries(errors).flatMap(([key, error]) => {
+    if (!error || typeof error !== "object" || key === "ref") return [];
+    const path = prefix ? `${prefix}.${key}` : key;
+    return typeof error.type === "string" || typeof error.message === "string"
+      ? [path]
+      : getErrorPaths(error, path);
+  });
@@ -0,0 +1,15 @@
+import { IFieldSchema } from "../interface/form.interface";
+import { set } from "react-hook-form";
+
+/**
+ * Builds a new item of a repeatable field group from its sub-fields' default values.
+ * @param {IFieldSchema<any>[]} fields - The sub-schema of the field group.
+ * @returns {Record<string, any>} - The default values of the item.
+ */
+export const getFieldArrayItem = (
+  fields: IFieldSchema<any>[]
+): Record<string, any> =>
+  fields.reduce<Record<string, any>>((item, field) => {
+    set(item, field.key, field.defaultValue ?? (field.fields ? [] : undefined));
+    return item;
+  }, {});
@@ -0,0 +1,34 @@
+import { FieldValues } from "react-hook-form";
+import {
+  ConditionNode,
+  FieldCondition,
+  FieldStates,
+  IFieldSchema,
+} from "../interface/form.interface";
+import { checkDisplayConditions } from "./checkDisplayConditions";
+import { getZodConstraints } from "./getZodConstraints";
+
+const conditionsMet = (
+  conditions: ConditionNode<FieldCondition<any>>[] | undefined,
+  values: Record<string, any>
+) => !!conditions && checkDisplayConditions(conditions, values);
+
+/**
+ * Returns the required, disabled and read-only states of a field.
+ * A field with `requiredConditions` is required while they are met; otherwise it is required
+ * when its validation rejects an undefined value.
+ * @template TFieldValues - The type of field values.
+ * @param {IFieldSchema<TFieldValues>} field - The schema definition of the field.
+ * @param {Record<string, any>} values - The values the conditions are evaluated on: the form values, or the item values for sub-fields.
+ * @returns {FieldStates} - The states of the field.
+ */
+export const getFieldStates = <TFieldValues extends FieldValues>(
+  field: IFieldSchema<TFieldValues>,
+  values: Record<string, any>
+): FieldStates => ({
+  required: field.requiredConditions
+    ? conditionsMet(field.requiredConditions, values)
+    : !getZodConstraints(field.validations).optional,
+  disabled: !!field.disabled || conditionsMet(field.disabledConditions, values),
+  readOnly: !!field.readOnly || conditionsMet(field.readOnlyConditions, values),
+});
@@ -0,0 +1,30 @@
+import { FieldValues } from "react-hook-form";
+import { FieldSection, IFieldSchema } from "../interface/form.interface";
+import { checkDisplayConditions } from "./checkDisplayConditions";
+import { includesFieldKey } from "./includesFieldKey";
+
+/**
+ * Lists the fields hidden by their display conditions or by those of their section.
+ * @template TFieldValues - The type of field values.
+ * @param {IFieldSchema<TFieldValues>[]} fields - The fields of the form.
+ * @param {Record<string, any>} values - The values the conditions are evaluated on.
+ * @param {FieldSection<TFieldValues>[]} [sections] - The sections grouping the fields.
+ * @returns {IFieldSchema<TFieldValues>[]} - The hidden fields.
+ */
+export const getHiddenFields = <TFieldValues extends FieldValues>(
+  fields: IFieldSchema<TFieldValues>[],
+  values: Record<string, any>,
+  sections: FieldSection<TFieldValues>[] = []
+): IFieldSchema<TFieldValues>[] => {
+  const hiddenSections = sections.filter(
+    (section) => !checkDisplayConditions(section.displayConditions, values)
+  );
+
+  return fields.filter(
+    (field) =>
+      !checkDisplayConditions(field.displayConditions, values) ||
+      hiddenSections.some((section) =>
+        includesFieldKey(section.fields, field.key)
+      )
+  );
+};
@@ -2,7 +2,47 @@ import {
   AsyncDefaultValues,
   IFieldSchema,
 } from "../interface/form.interface";
-import { DefaultValues, FieldValues } from "react-hook-form";
+import { DefaultValues, FieldValues, get, set } from "react-hook-form";
+import { getFieldArrayItem } from "./getFieldArrayItem";
+import { getZodConstraints } from "./getZodConstraints";
+import { mergeValues } from "./mergeValues";
+import { toDate } from "./toDate";
+
+/**
+ * Restores Date values of date fields, which are stored as ISO strings,
+ * and drops file values, which cannot be restored from storage.
+ * The items of field groups are revived with the group's sub-fields.
+ */
+const reviveStoredValues = <TFieldValues extends FieldValues>(
+  schema: IFieldSchema<TFieldValues>[],
+  values: Record<string, any>
+): Record<string, any> => {
+  schema.forEach((item) => {
+    const value = get(values, item.key);
+    if (value === undefined || value === null) return;
+    if (item.fields && Array.isArray(value)) {
+      const fields = item.fields;
+      value.forEach((entry) => {
+        if (entry && typeof entry === "object") {
+          reviveStoredValues(fields, entry);
+        }
+      });
+    } else if (item.type === "file") {
+      const segments = item.key.split(".");
+      const name = segments.pop() as string;
+      const parent = segments.length ? get(values, segments.join(".")) : values;
+      delete parent[name];
+    } else if (item.type === "date" || item.type === "datetime") {
+      set(values, item.key, toDate(value));
+    } else if (item.type === "date-range") {
+      set(values, item.key, {
+        from: toDate(value.from),
+        to: toDate(value.to),
+      });
+    }
+  });
+  return values;
+};
 
 export const getInitialValues = <TFieldValues extends FieldValues>(
   formKey: string,
@@ -23,7 +63,7 @@ export const getInitialValues = <TFieldValues extends FieldValues>(
       try {
         const item = storage.getItem(formKey);
         if (item) {
-          savedValues = JSON.parse(item);
+          savedValues = reviveStoredValues(schema, JSON.parse(item));
         }
       } catch (error) {
         console.error("Error parsing storage item:", error);
@@ -32,16 +72,27 @@ export const getInitialValues = <TFieldValues extends FieldValues>(
     }
   }
 
-  let initialValues = schema.reduce<Record<string, any>>((acc, item) => {
-    acc[item.key] = item.defaultValue;
+  const schemaValues = schema.reduce<Record<string, any>>((acc, item) => {
+    if (item.fields && item.defaultValue === undefined) {
+      // Field groups start with the minimum number of items their validation requires.
+      const { minItems = 0 } = getZodConstraints(item.validations);
+      const fields = item.fields;
+      set(
+        acc,
+        item.key,
+        Array.from({ length: minItems }, () => getFieldArrayItem(fields))
+      );
+    } else {
+      set(acc, item.key, item.defaultValue);
+    }
     return acc;
   }, {});
 
-  if (defaultValues) {
-    initialValues = { ...initialValues, ...defaultValues };
-  }
-
-  initialValues = { ...initialValues, ...savedValues };
+  const initialValues = mergeValues(
+    schemaValues,
+    typeof defaultValues === "object" ? defaultValues : {},
+    savedValues
+  );
 
   return initialValues as
     | DefaultValues<TFieldValues>
@@ -0,0 +1,42 @@
+import { FieldValues, get } from "react-hook-form";
+import { IFieldSchema } from "../interface/form.interface";
+
+/**
+ * Lists the fields whose options depend on other fields, with the serialized values of those fields.
+ * The sub-fields of repeatable groups are listed for each item, under the item's key (e.g. "addresses.0.state").
+ * @template TFieldValues - The type of field values.
+ * @param {IFieldSchema<TFieldValues>[]} fields - The fields of the form.
+ * @param {Record<string, any>} values - The form values.
+ * @param {string} [prefix] - The key prefix of the item the fields belong to.
+ * @returns The keys and schemas of the fields, with the serialized values of their `optionsDependsOn` fields.
+ */
+export const getOptionDependencies = <TFieldValues extends FieldValues>(
+  fields: IFieldSchema<TFieldValues>[],
+  values: Record<string, any>,
+  prefix = ""
+): {
+  key: string;
+  field: IFieldSchema<TFieldValues>;
+  dependencyKey: string;
+}[] =>
+  fields.flatMap((field) => {
+    const key = `${prefix}${field.key}`;
+    const items = get(values, key);
+    const itemFields =
+      field.fields && Array.isArray(items)
+        ? items.flatMap((_, index) =>
+            getOptionDependencies(
+              field.fields ?? [],
+              values,
+              `${key}.${index}.`
+            )
+          )
+        : [];
+    if (!field.optionsDependsOn?.length) {
+      return itemFields;
+    }
+    const dependencyKey = JSON.stringify(
+      field.optionsDependsOn.map((path) => get(values, path))
+    );
+    return [{ key, field, dependencyKey }, ...itemFields];
+  });
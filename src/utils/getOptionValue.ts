@@ -0,0 +1,13 @@
+import { FieldOption } from "../interface/form.interface";
+
+/**
+ * Maps the string value emitted by a UI control back to the typed option value.
+ * @param {FieldOption[]} options - The field's options.
+ * @param {string} value - The string value emitted by the control.
+ * @returns {string | number | undefined} - The matching option value, if any.
+ */
+export const getOptionValue = (
+  options: FieldOption[],
+  value: string
+): string | number | undefined =>
+  options.find((option) => String(option.value) === value)?.value;
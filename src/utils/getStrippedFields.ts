@@ -0,0 +1,66 @@
+import { FieldValues } from "react-hook-form";
+import {
+  FieldSection,
+  HiddenValuePolicy,
+  IFieldSchema,
+} from "../interface/form.interface";
+import { getHiddenFields } from "./getHiddenFields";
+import { omitFields } from "./omitFields";
+
+/**
+ * Lists the keys of the hidden fields whose value is stripped, by their own `hiddenValuePolicy` or the form's.
+ * A stripped value no longer counts for the conditions of other fields, which can hide or show
+ * further fields, so the hidden fields are evaluated again until they no longer change.
+ * @template TFieldValues - The type of field values.
+ * @param {IFieldSchema<TFieldValues>[]} fields - The fields of the form.
+ * @param {Record<string, any>} values - The form values.
+ * @param {FieldSection<TFieldValues>[]} [sections] - The sections grouping the fields.
+ * @param {HiddenValuePolicy} [policy] - The form's policy for the values of hidden fields.
+ * @returns {string[]} - The keys of the stripped fields.
+ */
+export const getStrippedFields = <TFieldValues extends FieldValues>(
+  fields: IFieldSchema<TFieldValues>[],
+  values: Record<string, any>,
+  sections: FieldSection<TFieldValues>[] = [],
+  policy: HiddenValuePolicy = "keep"
+): string[] => {
+  let strippedKeys: string[] = [];
+
+  // Each pass can only change the fields depending on the previous one, so the passes are bounded.
+  for (let pass = 0; pass <= fields.length; pass++) {
+    const keys = getHiddenFields(
+      fields,
+      omitFields(values, strippedKeys),
+      sections
+    )
+      .filter((field) => (field.hiddenValuePolicy ?? policy) === "strip")
+      .map((field) => field.key as string);
+    if (
+      keys.length === strippedKeys.length &&
+      keys.every((key) => strippedKeys.includes(key))
+    ) {
+      break;
+    }
+    strippedKeys = keys;
+  }
+
+  return strippedKeys;
+};
+
+/**
+ * Returns the values the conditions of the form are evaluated on: the form values without those of
+ * the stripped hidden fields, so that their stale values cannot satisfy the conditions of other fields.
+ * @template TFieldValues - The type of field values.
+ * @param {IFieldSchema<TFieldValues>[]} fields - The fields of the form.
+ * @param {Record<string, any>} values - The form values.
+ * @param {FieldSection<TFieldValues>[]} [sections] - The sections grouping the fields.
+ * @param {HiddenValuePolicy} [policy] - The form's policy for the values of hidden fields.
+ * @returns {Record<string, any>} - The values for evaluating conditions.
+ */
+export const getConditionValues = <TFieldValues extends FieldValues>(
+  fields: IFieldSchema<TFieldValues>[],
+  values: Record<string, any>,
+  sections: FieldSection<TFieldValues>[] = [],
+  policy: HiddenValuePolicy = "keep"
+): Record<string, any> =>
+  omitFields(values, getStrippedFields(fields, values, sections, policy));
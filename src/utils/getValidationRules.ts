@@ -0,0 +1,153 @@
+import { ZodFirstPartyTypeKind, ZodTypeAny } from "zod";
+import { JsonValidationRules } from "../interface/form.interface";
+import { getDeclaredValidationRules } from "./declaredRules";
+
+/**
+ * Strips optional, nullable and default wrappers, and the empty-string alternative of optional text fields.
+ * Unlike `unwrapZodType`, refinements are kept since they cannot be represented as rules.
+ */
+const unwrapOptional = (schema: ZodTypeAny): ZodTypeAny => {
+  const def = schema._def;
+  switch (def.typeName) {
+    case ZodFirstPartyTypeKind.ZodOptional:
+    case ZodFirstPartyTypeKind.ZodNullable:
+    case ZodFirstPartyTypeKind.ZodDefault:
+      return unwrapOptional(def.innerType);
+    case ZodFirstPartyTypeKind.ZodUnion: {
+      const options = (def.options as ZodTypeAny[]).filter(
+        (option) =>
+          option._def.typeName !== ZodFirstPartyTypeKind.ZodLiteral ||
+          option._def.value !== ""
+      );
+      return options.length === 1 ? unwrapOptional(options[0]) : schema;
+    }
+    default:
+      return schema;
+  }
+};
+
+/**
+ * Reads the checks of a ZodString, ZodNumber or ZodDate into rules; date limits are written as ISO strings.
+ * @returns {boolean} - Whether every check could be represented.
+ */
+const readChecks = (
+  checks: Array<{
+    kind: string;
+    value?: any;
+    regex?: RegExp;
+    message?: string;
+  }>,
+  rules: JsonValidationRules,
+  isDate = false
+): boolean => {
+  const messages: NonNullable<JsonValidationRules["messages"]> = {};
+  for (const check of checks) {
+    switch (check.kind) {
+      case "min":
+      case "max":
+        rules[check.kind] = isDate
+          ? new Date(check.value).toISOString()
+          : check.value;
+        if (check.message) messages[check.kind] = check.message;
+        break;
+      case "length":
+        rules.min = check.value;
+        rules.max = check.value;
+        break;
+      case "regex":
+        rules.pattern = check.regex?.source;
+        if (check.message) messages.pattern = check.message;
+        break;
+      case "email":
+      case "url":
+        rules[check.kind] = true;
+        if (check.message) messages[check.kind] = check.message;
+        break;
+      case "int":
+        rules.integer = true;
+        if (check.message) messages.integer = check.message;
+        break;
+      default:
+        return false;
+    }
+  }
+  if (Object.keys(messages).length) rules.messages = messages;
+  return true;
+};
+
+/**
+ * Reads the declarative rules equivalent to a field's Zod validation.
+ * Validations built from rules return those rules; others are read from their Zod type and checks.
+ * @param {ZodTypeAny} schema - The field's Zod validation.
+ * @returns {JsonValidationRules | undefined} - The rules, or undefined if the validation uses refinements,
+ * transforms or types that cannot be represented.
+ */
+export const getValidationRules = (
+  schema: ZodTypeAny
+): JsonValidationRules | undefined => {
+  const declared = getDeclaredValidationRules(schema);
+  if (declared) return declared;
+
+  const rules: JsonValidationRules = {
+    required: !schema.safeParse(undefined).success,
+  };
+  const inner = unwrapOptional(schema);
+  const def = inner._def;
+
+  switch (def.typeName) {
+    case ZodFirstPartyTypeKind.ZodString:
+      rules.valueType = "string";
+      if (!readChecks(def.checks, rules)) return undefined;
+      // Required text must not be empty, as when built from rules.
+      if (rules.required && rules.min === 1 && rules.max === undefined) {
+        delete rules.min;
+      }
+      return rules;
+    case ZodFirstPartyTypeKind.ZodNumber:
+      rules.valueType = "number";
+      if (
+        def.checks.some(
+          (check: { inclusive?: boolean }) => check.inclusive === false
+        )
+      ) {
+        return undefined;
+      }
+      return readChecks(def.checks, rules) ? rules : undefined;
+    case ZodFirstPartyTypeKind.ZodDate:
+      rules.valueType = "date";
+      return readChecks(def.checks, rules, true) ? rules : undefined;
+    case ZodFirstPartyTypeKind.ZodBoolean:
+      // Booleans are only required to be checked when validated with `z.literal(true)`.
+      return { valueType: "boolean", required: false };
+    case ZodFirstPartyTypeKind.ZodLiteral:
+      return def.value === true
+        ? { valueType: "boolean", required: true }
+        : undefined;
+    case ZodFirstPartyTypeKind.ZodEnum:
+      return { ...rules, valueType: "string", enum: [...def.values] };
+    case ZodFirstPartyTypeKind.ZodArray: {
+      const item = unwrapOptional(def.type);
+      rules.valueType = "array";
+      if (item._def.typeName === ZodFirstPartyTypeKind.ZodEnum) {
+        rules.enum = [...item._def.values];
+      } else if (
+        ![
+          ZodFirstPartyTypeKind.ZodString,
+          ZodFirstPartyTypeKind.ZodNumber,
+          ZodFirstPartyTypeKind.ZodObject,
+          ZodFirstPartyTypeKind.ZodAny,
+        ].includes(item._def.typeName)
+      ) {
+        return undefined;
+      }
+      const min = def.exactLength?.value ?? def.minLength?.value;
+      const max = def.exactLength?.value ?? def.maxLength?.value;
+      rules.required = rules.required && !!min;
+      if (min !== undefined && !(rules.required && min === 1)) rules.min = min;
+      if (max !== undefined) rules.max = max;
+      return rules;
+    }
+    default:
+      return undefined;
+  }
+};
@@ -0,0 +1,41 @@
+import { FieldValues, get } from "react-hook-form";
+import { FieldSection, IFieldSchema } from "../interface/form.interface";
+import { checkRemoveValidationCondition } from "./checkRemoveValidationCondition";
+import { getHiddenFields } from "./getHiddenFields";
+
+/**
+ * Lists the keys of the fields that are not validated with the given values: the fields hidden by
+ * their display conditions or those of their section, and the fields whose `removeValidationConditions` are met.
+ * The conditions of the sub-fields of repeatable groups are evaluated on their item.
+ * @template TFieldValues - The type of field values.
+ * @param {IFieldSchema<TFieldValues>[]} fields - The fields of the form.
+ * @param {Record<string, any>} values - The form values.
+ * @param {FieldSection<TFieldValues>[]} [sections] - The sections grouping the fields.
+ * @returns {string[]} - The keys of the waived fields, with the item index for sub-fields (e.g. "phones.0.number").
+ */
+export const getWaivedFields = <TFieldValues extends FieldValues>(
+  fields: IFieldSchema<TFieldValues>[],
+  values: Record<string, any>,
+  sections: FieldSection<TFieldValues>[] = []
+): string[] => {
+  const hiddenFields = getHiddenFields(fields, values, sections);
+
+  return fields.flatMap((field) => {
+    if (
+      hiddenFields.includes(field) ||
+      checkRemoveValidationCondition(field.removeValidationConditions, values)
+    ) {
+      return [field.key];
+    }
+
+    const items = get(values, field.key);
+    if (!field.fields || !Array.isArray(items)) {
+      return [];
+    }
+    return items.flatMap((item, index) =>
+      getWaivedFields(field.fields ?? [], item ?? {}).map(
+        (key) => `${field.key}.${index}.${key}`
+      )
+    );
+  });
+};
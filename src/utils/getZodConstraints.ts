@@ -0,0 +1,110 @@
+import { ZodFirstPartyTypeKind, ZodTypeAny } from "zod";
+
+/**
+ * Constraints read from a field's Zod validation, used to configure the rendered control.
+ */
+export interface ZodConstraints {
+  /** Whether the value may be left undefined or null. */
+  optional: boolean;
+  /** Minimum numeric value (ZodNumber). */
+  min?: number;
+  /** Maximum numeric value (ZodNumber). */
+  max?: number;
+  /** Step between numeric values (ZodNumber.multipleOf). */
+  step?: number;
+  /** Minimum string length (ZodString). */
+  minLength?: number;
+  /** Maximum string length (ZodString). */
+  maxLength?: number;
+  /** Minimum number of items (ZodArray). */
+  minItems?: number;
+  /** Maximum number of items (ZodArray). */
+  maxItems?: number;
+  /** Earliest allowed date (ZodDate). */
+  minDate?: Date;
+  /** Latest allowed date (ZodDate). */
+  maxDate?: Date;
+}
+
+/**
+ * Strips optional, nullable, default and effect wrappers from a Zod type.
+ * @param {ZodTypeAny} schema - The Zod type to unwrap.
+ * @returns {ZodTypeAny} - The innermost Zod type.
+ */
+export const unwrapZodType = (schema: ZodTypeAny): ZodTypeAny => {
+  let current: ZodTypeAny = schema;
+
+  for (;;) {
+    const def = current._def;
+    switch (def.typeName) {
+      case ZodFirstPartyTypeKind.ZodOptional:
+      case ZodFirstPartyTypeKind.ZodNullable:
+      case ZodFirstPartyTypeKind.ZodDefault:
+      case ZodFirstPartyTypeKind.ZodCatch:
+      case ZodFirstPartyTypeKind.ZodReadonly:
+        current = def.innerType;
+        break;
+      case ZodFirstPartyTypeKind.ZodEffects:
+        current = def.schema;
+        break;
+      case ZodFirstPartyTypeKind.ZodBranded:
+        current = def.type;
+        break;
+      case ZodFirstPartyTypeKind.ZodPipeline:
+        current = def.in;
+        break;
+      default:
+        return current;
+    }
+  }
+};
+
+/**
+ * Reads the constraints declared on a field's Zod validation.
+ * @param {ZodTypeAny} [schema] - The field's Zod validation.
+ * @returns {ZodConstraints} - The constraints found on the validation.
+ */
+export const getZodConstraints = (schema?: ZodTypeAny): ZodConstraints => {
+  if (!schema) {
+    return { optional: true };
+  }
+
+  const constraints: ZodConstraints = {
+    optional: schema.safeParse(undefined).success,
+  };
+  const inner = unwrapZodType(schema);
+
+  if (inner._def.typeName === ZodFirstPartyTypeKind.ZodNumber) {
+    for (const check of inner._def.checks) {
+      if (check.kind === "min") constraints.min = check.value;
+      if (check.kind === "max") constraints.max = check.value;
+      if (check.kind === "multipleOf") constraints.step = check.value;
+    }
+  }
+
+  if (inner._def.typeName === ZodFirstPartyTypeKind.ZodString) {
+    for (const check of inner._def.checks) {
+      if (check.kind === "min") constraints.minLength = check.value;
+      if (check.kind === "max") constraints.maxLength = check.value;
+      if (check.kind === "length") {
+        constraints.minLength = check.value;
+        constraints.maxLength = check.value;
+      }
+    }
+  }
+
+  if (inner._def.typeName === ZodFirstPartyTypeKind.ZodDate) {
+    for (const check of inner._def.checks) {
+      if (check.kind === "min") constraints.minDate = new Date(check.value);
+      if (check.kind === "max") constraints.maxDate = new Date(check.value);
+    }
+  }
+
+  if (inner._def.typeName === ZodFirstPartyTypeKind.ZodArray) {
+    const { minLength, maxLength, exactLength } = inner._def;
+    constraints.minItems = exactLength?.value ?? minLength?.value;
+    constraints.maxItems = exactLength?.value ?? maxLength?.value;
+  }
+
+  return constraints;
+};
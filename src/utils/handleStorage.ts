@@ -1,8 +1,6 @@
-import { FieldValues } from "react-hook-form";
-
-export function handleStorage<TFieldValues extends FieldValues>(
+export function handleStorage<TValue>(
   key: string,
-  value: TFieldValues,
+  value: TValue,
   persistFormResponse: "localStorage" | "sessionStorage" | undefined
 ) {
   if (
@@ -19,3 +17,25 @@ export function handleStorage<TFieldValues extends FieldValues>(
     }
   }
 }
+
+/**
+ * Reads a value saved with handleStorage.
+ * @param {string} key - The storage key.
+ * @param {"localStorage" | "sessionStorage" | undefined} persistFormResponse - Where the value is persisted.
+ * @returns {TValue | undefined} - The parsed value, or undefined when nothing valid is stored.
+ */
+export function readStorage<TValue>(
+  key: string,
+  persistFormResponse: "localStorage" | "sessionStorage" | undefined
+): TValue | undefined {
+  if (typeof window === "undefined" || !persistFormResponse) {
+    return undefined;
+  }
+  try {
+    const item = window[persistFormResponse]?.getItem(key);
+    return item ? (JSON.parse(item) as TValue) : undefined;
+  } catch (error) {
+    console.error("Error parsing storage item:", error);
+    return undefined;
+  }
+}
@@ -0,0 +1,351 @@
+import { FieldValues } from "react-hook-form";
+import { z, ZodTypeAny } from "zod";
+import {
+  FieldOption,
+  IFieldSchema,
+  JsonSchema,
+  JsonSchemaType,
+  ZodFieldOverrides,
+} from "../interface/form.interface";
+import { enumValidation } from "./buildValidation";
+import { toDate } from "./toDate";
+import { toLabel } from "./toLabel";
+
+/**
+ * Resolves a local `$ref` (e.g. "#/$defs/address" or "#/definitions/address") against the root document.
+ */
+const resolveRef = (schema: JsonSchema, root: JsonSchema): JsonSchema => {
+  let current = schema;
+  const seen = new Set<string>();
+  while (current.$ref) {
+    const ref = current.$ref;
+    if (!ref.startsWith("#") || seen.has(ref)) {
+      throw new Error(`Cannot resolve the JSON Schema reference "${ref}"`);
+    }
+    seen.add(ref);
+    const target = ref
+      .slice(1)
+      .split("/")
+      .filter(Boolean)
+      .reduce<any>(
+        (node, segment) =>
+          node?.[segment.replace(/~1/g, "/").replace(/~0/g, "~")],
+        root
+      );
+    if (!target) {
+      throw new Error(`Cannot resolve the JSON Schema reference "${ref}"`);
+    }
+    current = target;
+  }
+  return current;
+};
+
+/**
+ * Unwraps an `anyOf` that only adds the empty string of a cleared text field to another schema.
+ */
+const withoutEmptyString = (
+  schema: JsonSchema,
+  root: JsonSchema
+): JsonSchema => {
+  const { anyOf, ...rest } = schema;
+  const choices = anyOf?.filter((choice) => choice.const !== "");
+  if (anyOf?.length !== 2 || choices?.length !== 1) return schema;
+  return { ...rest, ...resolveRef(choices[0], root) };
+};
+
+/**
+ * Returns the types a JSON Schema accepts, inferred from its keywords when `type` is omitted.
+ */
+const getTypes = (schema: JsonSchema): JsonSchemaType[] => {
+  if (schema.type) return ([] as JsonSchemaType[]).concat(schema.type);
+  const values =
+    schema.const !== undefined ? [schema.const] : schema.enum ?? [];
+  if (values.length) {
+    return [
+      ...new Set(
+        values.map((value) =>
+          value === null ? "null" : (typeof value as JsonSchemaType)
+        )
+      ),
+    ];
+  }
+  if (schema.properties) return ["object"];
+  if (schema.items) return ["array"];
+  return [];
+};
+
+/**
+ * Returns the allowed values of an `enum`, or of a `oneOf`/`anyOf` list of titled `const` values, as options.
+ */
+const getOptions = (schema: JsonSchema): FieldOption[] | undefined => {
+  if (schema.enum) {
+    return schema.enum
+      .filter((value): value is string | number =>
+        ["string", "number"].includes(typeof value)
+      )
+      .map((value) => ({ label: String(value), value }));
+  }
+  const choices = schema.oneOf ?? schema.anyOf;
+  if (
+    choices?.length &&
+    choices.every((choice) => choice.const !== undefined)
+  ) {
+    return choices
+      .filter((choice) => ["string", "number"].includes(typeof choice.const))
+      .map((choice) => ({
+        label: choice.title ?? String(choice.const),
+        value: choice.const as string | number,
+      }));
+  }
+  return undefined;
+};
+
+const isDateFormat = (format?: string) =>
+  format === "date" || format === "date-time";
+
+/**
+ * Makes a property validation optional when it is not required, accepting the empty string of cleared text fields.
+ */
+const toOptional = (
+  validation: ZodTypeAny,
+  schema: JsonSchema,
+  required: boolean
+): ZodTypeAny => {
+  const nullable = getTypes(schema).includes("null")
+    ? validation.nullable()
+    : validation;
+  if (required) return nullable;
+  return getTypes(schema).includes("string") && !isDateFormat(schema.format)
+    ? nullable.or(z.literal("")).optional()
+    : nullable.optional();
+};
+
+const toStringValidation = (schema: JsonSchema): ZodTypeAny => {
+  if (isDateFormat(schema.format)) return z.date();
+
+  let validation = z.string();
+  if (schema.minLength !== undefined) {
+    validation = validation.min(schema.minLength);
+  }
+  if (schema.maxLength !== undefined) {
+    validation = validation.max(schema.maxLength);
+  }
+  if (schema.pattern) validation = validation.regex(new RegExp(schema.pattern));
+  if (schema.format === "email") validation = validation.email();
+  if (schema.format === "uri") validation = validation.url();
+  if (schema.format === "uuid") validation = validation.uuid();
+  return validation;
+};
+
+const toNumberValidation = (
+  schema: JsonSchema,
+  integer: boolean
+): ZodTypeAny => {
+  let validation = z.number();
+  if (integer) validation = validation.int();
+  if (schema.minimum !== undefined) validation = validation.min(schema.minimum);
+  if (schema.maximum !== undefined) validation = validation.max(schema.maximum);
+  if (typeof schema.exclusiveMinimum === "number") {
+    validation = validation.gt(schema.exclusiveMinimum);
+  }
+  if (typeof schema.exclusiveMaximum === "number") {
+    validation = validation.lt(schema.exclusiveMaximum);
+  }
+  if (schema.multipleOf !== undefined) {
+    validation = validation.multipleOf(schema.multipleOf);
+  }
+  return validation;
+};
+
+/**
+ * Builds the Zod validation of a JSON Schema, without its optionality.
+ * @returns {ZodTypeAny | undefined} - The validation, or undefined if the schema does not constrain the value.
+ */
+const toValidation = (
+  schema: JsonSchema,
+  root: JsonSchema
+): ZodTypeAny | undefined => {
+  const options = getOptions(schema);
+  if (options) {
+    return enumValidation(options.map((option) => option.value));
+  }
+
+  const type = getTypes(schema).find((item) => item !== "null");
+  switch (type) {
+    case "string":
+      return toStringValidation(schema);
+    case "number":
+    case "integer":
+      return toNumberValidation(schema, type === "integer");
+    case "boolean":
+      return schema.const === true ? z.literal(true) : z.boolean();
+    case "array": {
+      const items = schema.items && resolveRef(schema.items, root);
+      let validation = z.array((items && toValidation(items, root)) ?? z.any());
+      if (schema.minItems !== undefined) {
+        validation = validation.min(schema.minItems);
+      }
+      if (schema.maxItems !== undefined) {
+        validation = validation.max(schema.maxItems);
+      }
+      return validation;
+    }
+    case "object":
+      return z.object(
+        Object.fromEntries(
+          Object.entries(schema.properties ?? {}).map(([key, property]) => {
+            const resolved = withoutEmptyString(
+              resolveRef(property, root),
+              root
+            );
+            return [
+              key,
+              toOptional(
+                toValidation(resolved, root) ?? z.any(),
+                resolved,
+                !!schema.required?.includes(key)
+              ),
+            ];
+          })
+        )
+      );
+    default:
+      return undefined;
+  }
+};
+
+/**
+ * Infers the field type and options of a JSON Schema property.
+ */
+const inferField = (
+  schema: JsonSchema,
+  root: JsonSchema
+): Pick<IFieldSchema<any>, "type" | "options"> => {
+  const type = getTypes(schema).find((item) => item !== "null");
+  const options = getOptions(schema);
+  if (type === "array") {
+    const items = schema.items && resolveRef(schema.items, root);
+    return { type: "multi-select", options: items && getOptions(items) };
+  }
+  if (options) return { type: "select", options };
+
+  switch (type) {
+    case "number":
+    case "integer":
+      return { type: "number" };
+    case "boolean":
+      return { type: "checkbox" };
+    case "string":
+      switch (schema.format) {
+        case "email":
+          return { type: "email" };
+        case "uri":
+          return { type: "url" };
+        case "date":
+          return { type: "date" };
+        case "date-time":
+          return { type: "datetime" };
+        case "time":
+          return { type: "time" };
+      }
+      return { type: "text" };
+    default:
+      return { type: "text" };
+  }
+};
+
+/**
+ * Imports the properties of an object schema as fields.
+ * The properties of an optional or nullable parent object are optional themselves.
+ */
+const importProperties = (
+  schema: JsonSchema,
+  root: JsonSchema,
+  overrides: ZodFieldOverrides<any>,
+  prefix = "",
+  overridePrefix = "",
+  optional = false
+): IFieldSchema<any>[] =>
+  Object.entries(schema.properties ?? {}).flatMap(([name, property]) => {
+    const key = `${prefix}${name}`;
+    const overrideKey = `${overridePrefix}${name}`;
+    const resolved = withoutEmptyString(resolveRef(property, root), root);
+    const types = getTypes(resolved);
+    const required = !optional && !!schema.required?.includes(name);
+
+    // Nested objects are flattened into fields with dotted keys.
+    if (types.includes("object") && resolved.properties) {
+      return importProperties(
+        resolved,
+        root,
+        overrides,
+        `${key}.`,
+        `${overrideKey}.`,
+        !required || types.includes("null")
+      );
+    }
+
+    const validation = toValidation(resolved, root);
+    const field: IFieldSchema<any> = {
+      key,
+      label: resolved.title ?? toLabel(name),
+      description: resolved.description,
+      ...inferField(resolved, root),
+    };
+    if (validation) {
+      field.validations = toOptional(validation, resolved, required);
+    }
+    if (resolved.default !== undefined) {
+      field.defaultValue = isDateFormat(resolved.format)
+        ? toDate(resolved.default)
+        : resolved.default;
+    }
+
+    // Arrays of objects become repeatable groups, whose sub-field keys are relative to the item.
+    const items = resolved.items && resolveRef(resolved.items, root);
+    if (types.includes("array") && items?.properties) {
+      field.type = "array";
+      delete field.options;
+      field.fields = importProperties(
+        items,
+        root,
+        overrides,
+        "",
+        `${overrideKey}.`
+      );
+    }
+
+    return [{ ...field, ...overrides[overrideKey] }];
+  });
+
+/**
+ * Converts a JSON Schema (draft-07 or 2020-12) describing the form values into the fields of a form.
+ * Types, enums, formats, minimum and maximum values, lengths and item counts, and required properties
+ * become Zod validations; local `$ref`s are resolved. Nested objects are flattened into dotted keys,
+ * arrays of objects become repeatable field groups, and `date` and `date-time` strings are edited as dates.
+ * @template TFieldValues - The type of field values.
+ * @param {JsonSchema | string} jsonSchema - The JSON Schema, parsed or as a string. Its root must be an object.
+ * @param {ZodFieldOverrides<TFieldValues>} [overrides] - Properties merged over the generated fields, keyed by field path.
+ * @returns {IFieldSchema<TFieldValues>[]} - The fields of the form.
+ * @throws {Error} If the root is not an object schema or a reference cannot be resolved.
+ */
+export const importJsonSchema = <
+  TFieldValues extends FieldValues = FieldValues
+>(
+  jsonSchema: JsonSchema | string,
+  overrides: ZodFieldOverrides<TFieldValues> = {}
+): IFieldSchema<TFieldValues>[] => {
+  const root: JsonSchema =
+    typeof jsonSchema === "string" ? JSON.parse(jsonSchema) : jsonSchema;
+  const schema = resolveRef(root, root);
+  if (!schema.properties) {
+    throw new Error(
+      "The root of the JSON Schema must be an object with properties"
+    );
+  }
+  return importProperties(
+    schema,
+    root,
+    overrides
+  ) as IFieldSchema<TFieldValues>[];
+};
@@ -0,0 +1,8 @@
+/**
+ * Whether a field key is among a list of keys, either directly or as a nested path of one of them.
+ * @param {string[]} keys - The keys of a group of fields, such as a step or a section.
+ * @param {string} key - The field key to look for (e.g. "address.city").
+ * @returns {boolean} - Whether the key belongs to the group.
+ */
+export const includesFieldKey = (keys: string[], key: string): boolean =>
+  keys.some((groupKey) => key === groupKey || key.startsWith(`${groupKey}.`));
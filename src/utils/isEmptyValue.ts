@@ -0,0 +1,10 @@
+/**
+ * Whether a field value is empty: undefined, null, an empty string or an empty array.
+ * @param {unknown} value - The field value.
+ * @returns {boolean} - Whether the value is empty.
+ */
+export const isEmptyValue = (value: unknown): boolean =>
+  value === undefined ||
+  value === null ||
+  value === "" ||
+  (Array.isArray(value) && value.length === 0);
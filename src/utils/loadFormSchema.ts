@@ -0,0 +1,171 @@
+import { FieldValues } from "react-hook-form";
+import {
+  ConditionNode,
+  FieldCondition,
+  IFieldSchema,
+  ISchemaFormProps,
+  JsonFieldSchema,
+  JsonFormSchema,
+} from "../interface/form.interface";
+import { buildValidation, inferValueType } from "./buildValidation";
+import { isConditionOperatorRegistered } from "./conditionOperators";
+import { isFieldTypeRegistered } from "./fieldTypeRegistry";
+import { generateDynamicSchema } from "./generateDynamicSchema";
+import { toDate } from "./toDate";
+
+/**
+ * Field types rendered by `TextField` as native inputs, and the type of repeatable field groups.
+ */
+const nativeFieldTypes = new Set([
+  "text",
+  "email",
+  "password",
+  "number",
+  "tel",
+  "url",
+  "search",
+  "color",
+  "time",
+  "month",
+  "week",
+  "datetime-local",
+  "hidden",
+  "array",
+]);
+
+/**
+ * The condition lists of a field.
+ */
+const conditionKeys = [
+  "displayConditions",
+  "removeValidationConditions",
+  "requiredConditions",
+  "disabledConditions",
+  "readOnlyConditions",
+] as const;
+
+/**
+ * Checks that a condition, or every condition of a nested group, uses a built-in or registered operator.
+ */
+const checkConditionOperators = (
+  node: ConditionNode<FieldCondition<any>>,
+  owner: string
+): void => {
+  if ("all" in node && Array.isArray(node.all)) {
+    return node.all.forEach((child) => checkConditionOperators(child, owner));
+  }
+  if ("any" in node && Array.isArray(node.any)) {
+    return node.any.forEach((child) => checkConditionOperators(child, owner));
+  }
+  if ("not" in node && node.not) {
+    return checkConditionOperators(node.not, owner);
+  }
+  const { operator } = node as FieldCondition<any>;
+  if (!isConditionOperatorRegistered(operator)) {
+    throw new Error(
+      `Unknown condition operator "${operator}" in ${owner}. Use a built-in operator or register it with registerConditionOperator before loading the schema.`
+    );
+  }
+};
+
+/**
+ * Converts the default value of a date field from its JSON representation.
+ */
+const reviveDefaultValue = (field: JsonFieldSchema, valueType: string) => {
+  const { defaultValue } = field;
+  if (valueType === "date") {
+    return toDate(defaultValue);
+  }
+  if (
+    valueType === "date-range" &&
+    defaultValue &&
+    typeof defaultValue === "object" &&
+    !Array.isArray(defaultValue)
+  ) {
+    return { from: toDate(defaultValue.from), to: toDate(defaultValue.to) };
+  }
+  return defaultValue;
+};
+
+const loadField = (
+  field: JsonFieldSchema,
+  fieldTypes: Record<string, unknown>
+): IFieldSchema<any> => {
+  if (!field || typeof field.key !== "string" || !field.key) {
+    throw new Error("Every field of a JSON form schema must have a key");
+  }
+  const { type, validation, fields, defaultValue, ...rest } = field;
+  if (
+    type &&
+    !nativeFieldTypes.has(type) &&
+    !Object.prototype.hasOwnProperty.call(fieldTypes, type) &&
+    !isFieldTypeRegistered(type)
+  ) {
+    throw new Error(`Unknown type "${type}" for field "${field.key}"`);
+  }
+  conditionKeys.forEach((conditionKey) =>
+    field[conditionKey]?.forEach((node) =>
+      checkConditionOperators(node, `field "${field.key}"`)
+    )
+  );
+
+  const subFields = fields?.map((subField) => loadField(subField, fieldTypes));
+  const valueType = validation?.valueType ?? inferValueType(field);
+  const loadedField: IFieldSchema<any> = { ...rest, type };
+  if (subFields) loadedField.fields = subFields;
+  if (defaultValue !== undefined) {
+    loadedField.defaultValue = reviveDefaultValue(field, valueType);
+  }
+  if (validation) {
+    loadedField.validations = buildValidation(
+      validation,
+      valueType,
+      subFields && generateDynamicSchema(subFields)
+    );
+  }
+  return loadedField;
+};
+
+/**
+ * Loads a form stored as JSON into the props of `FormixProvider`.
+ * Validation rules are turned into Zod validations, and field types are checked against
+ * the registered field types (including the built-in ones, registered when the field components load),
+ * the `fieldTypes` option and the native input types. The operators of field, section and step conditions
+ * are checked against the built-in and registered condition operators.
+ * @template TFieldValues - The type of field values.
+ * @param {JsonFormSchema | string} json - The JSON form definition, parsed or as a string.
+ * @param {Partial<ISchemaFormProps<TFieldValues>>} [props] - Props that cannot be stored as JSON,
+ * such as `onSubmit` or `fieldTypes`, merged over the loaded ones.
+ * @returns {ISchemaFormProps<TFieldValues>} - The props of the form.
+ * @throws {Error} If the JSON is malformed, a field has an unknown type or a condition an unknown operator.
+ */
+export const loadFormSchema = <TFieldValues extends FieldValues = FieldValues>(
+  json: JsonFormSchema | string,
+  props: Partial<ISchemaFormProps<TFieldValues>> = {}
+): ISchemaFormProps<TFieldValues> => {
+  const formSchema: JsonFormSchema =
+    typeof json === "string" ? JSON.parse(json) : json;
+  if (!formSchema || !Array.isArray(formSchema.fields)) {
+    throw new Error("A JSON form schema must have a fields array");
+  }
+
+  const { fields, ...formProps } = formSchema;
+  formSchema.sections?.forEach((section) =>
+    section.displayConditions?.forEach((node) =>
+      checkConditionOperators(node, `section "${section.id}"`)
+    )
+  );
+  formSchema.steps?.forEach((step) =>
+    step.displayConditions?.forEach((node) =>
+      checkConditionOperators(node, `step "${step.id}"`)
+    )
+  );
+  const fieldTypes = props.fieldTypes ?? {};
+  return {
+    ...formProps,
+    schema: fields.map((field) =>
+      loadField(field, fieldTypes)
+    ) as IFieldSchema<TFieldValues>[],
+    ...props,
+  } as ISchemaFormProps<TFieldValues>;
+};
@@ -0,0 +1,40 @@
+import { FieldErrors, FieldValues, Resolver, get, set } from "react-hook-form";
+import { isEmptyValue } from "./isEmptyValue";
+
+/**
+ * Wraps a resolver so that the values of the fields revalidated against their reloaded options
+ * (`onInvalidOption: "revalidate"`) are rejected when they are no longer among them,
+ * as long as the field's own validation passes.
+ * @template TFieldValues - The type of field values.
+ * @param {Resolver<TFieldValues>} resolver - The resolver to wrap.
+ * @param {Map<string, Array<string | number>>} loadedOptions - The values of the loaded options by field key.
+ * @returns {Resolver<TFieldValues>} - The wrapped resolver.
+ */
+export const loadedOptionsResolver =
+  <TFieldValues extends FieldValues>(
+    resolver: Resolver<TFieldValues>,
+    loadedOptions: Map<string, Array<string | number>>
+  ): Resolver<TFieldValues> =>
+  async (values, context, options) => {
+    const result = await resolver(values, context, options);
+    const errors: Record<string, any> = { ...result.errors };
+    let hasOptionErrors = false;
+
+    loadedOptions.forEach((allowed, key) => {
+      const value = get(values, key);
+      if (get(errors, key) || isEmptyValue(value)) return;
+      const items: unknown[] = Array.isArray(value) ? value : [value];
+      if (items.every((item) => allowed.includes(item as string | number))) {
+        return;
+      }
+      set(errors, key, {
+        type: "options",
+        message: "Select one of the available options",
+      });
+      hasOptionErrors = true;
+    });
+
+    return hasOptionErrors
+      ? { values: result.values, errors: errors as FieldErrors<TFieldValues> }
+      : result;
+  };
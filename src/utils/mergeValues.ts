@@ -0,0 +1,27 @@
+/**
+ * Checks whether a value is a plain object (not an array, Date, File or class instance).
+ * @param {unknown} value - The value to check.
+ * @returns {boolean} - Whether the value is a plain object.
+ */
+const isPlainObject = (value: unknown): value is Record<string, any> =>
+  !!value &&
+  typeof value === "object" &&
+  Object.getPrototypeOf(value) === Object.prototype;
+
+/**
+ * Deeply merges form values, so nested objects from later sources only override the paths they define.
+ * @param {...Record<string, any>[]} sources - The values to merge, in increasing order of precedence.
+ * @returns {Record<string, any>} - The merged values.
+ */
+export const mergeValues = (
+  ...sources: Record<string, any>[]
+): Record<string, any> =>
+  sources.reduce<Record<string, any>>((merged, source) => {
+    Object.entries(source).forEach(([key, value]) => {
+      merged[key] =
+        isPlainObject(value) && isPlainObject(merged[key])
+          ? mergeValues(merged[key], value)
+          : value;
+    });
+    return merged;
+  }, {});
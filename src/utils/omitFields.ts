@@ -0,0 +1,28 @@
+/**
+ * Removes a dotted path from a value, copying the objects and arrays along the path.
+ */
+const omitPath = (value: any, segments: string[]): any => {
+  const [head, ...rest] = segments;
+  if (!value || typeof value !== "object" || !(head in value)) {
+    return value;
+  }
+
+  const copy = Array.isArray(value) ? [...value] : { ...value };
+  if (rest.length) {
+    copy[head] = omitPath(value[head], rest);
+  } else {
+    delete copy[head];
+  }
+  return copy;
+};
+
+/**
+ * Returns a copy of the form values (or errors) without the given fields.
+ * @param {T} values - The form values or errors.
+ * @param {string[]} keys - The dotted keys of the fields to remove.
+ * @returns {T} - The values without the fields; the input is left untouched.
+ */
+export const omitFields = <T extends Record<string, any>>(
+  values: T,
+  keys: string[]
+): T => keys.reduce<T>((acc, key) => omitPath(acc, key.split(".")), values);
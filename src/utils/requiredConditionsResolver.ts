@@ -0,0 +1,82 @@
+import { FieldErrors, FieldValues, Resolver, get, set } from "react-hook-form";
+import { IFieldSchema } from "../interface/form.interface";
+import { getFieldStates } from "./getFieldStates";
+import { isEmptyValue } from "./isEmptyValue";
+
+/**
+ * Whether a value is missing for a required field.
+ * Unchecked checkboxes and switches count as missing, as required boolean fields must be checked.
+ */
+const isMissing = (value: unknown) => isEmptyValue(value) || value === false;
+
+/**
+ * Lists the fields with `requiredConditions` whose value is missing, walking into the items of field groups.
+ * The conditions of sub-fields are evaluated on their item.
+ */
+const getConditionallyRequired = (
+  fields: IFieldSchema<any>[],
+  values: Record<string, any>,
+  prefix = ""
+): { key: string; required: boolean }[] =>
+  fields.flatMap((field) => {
+    const key = `${prefix}${field.key}`;
+    const value = get(values, field.key);
+    const itemFields =
+      field.fields && Array.isArray(value)
+        ? value.flatMap((item, index) =>
+            getConditionallyRequired(
+              field.fields ?? [],
+              item ?? {},
+              `${key}.${index}.`
+            )
+          )
+        : [];
+    if (!field.requiredConditions || !isMissing(value)) {
+      return itemFields;
+    }
+    return [
+      { key, required: getFieldStates(field, values).required },
+      ...itemFields,
+    ];
+  });
+
+/**
+ * Creates a resolver in which the `requiredConditions` of the fields decide whether a missing value is accepted:
+ * it is rejected while the conditions are met, and accepted otherwise, whatever the field's validation says.
+ * @template TFieldValues - The type of field values.
+ * @param {(optionalKeys: string[]) => Resolver<TFieldValues>} getResolver - Returns the resolver to wrap,
+ * whose validations accept a missing value for the given fields.
+ * @param {IFieldSchema<TFieldValues>[]} schema - The fields of the form.
+ * @param {(values: TFieldValues) => Record<string, any>} [getConditionValues] - Returns the values the conditions are evaluated on.
+ * @returns {Resolver<TFieldValues>} - The wrapped resolver.
+ */
+export const requiredConditionsResolver =
+  <TFieldValues extends FieldValues>(
+    getResolver: (optionalKeys: string[]) => Resolver<TFieldValues>,
+    schema: IFieldSchema<TFieldValues>[],
+    getConditionValues: (values: TFieldValues) => Record<string, any> = (
+      values
+    ) => values
+  ): Resolver<TFieldValues> =>
+  async (values, context, options) => {
+    const missingFields = getConditionallyRequired(
+      schema,
+      getConditionValues(values)
+    );
+    const result = await getResolver(
+      missingFields.filter((item) => !item.required).map((item) => item.key)
+    )(values, context, options);
+    const errors: Record<string, any> = { ...result.errors };
+    let hasRequiredErrors = false;
+
+    missingFields.forEach(({ key, required }) => {
+      if (required && !get(errors, key)) {
+        set(errors, key, { type: "required", message: "Required" });
+        hasRequiredErrors = true;
+      }
+    });
+
+    return hasRequiredErrors
+      ? { values: result.values, errors: errors as FieldErrors<TFieldValues> }
+      : result;
+  };
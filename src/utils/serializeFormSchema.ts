@@ -0,0 +1,145 @@
+import { FieldValues } from "react-hook-form";
+import {
+  IFieldSchema,
+  ISchemaFormProps,
+  JsonFieldSchema,
+  JsonFormSchema,
+  SerializeFormSchemaResult,
+} from "../interface/form.interface";
+import { getValidationRules } from "./getValidationRules";
+import { toJsonValue } from "./toJsonValue";
+
+/**
+ * Returns why a field cannot be stored as JSON, or undefined if it can.
+ */
+const getSkipReason = (field: IFieldSchema<any>): string | undefined => {
+  if (field.render) return "it has a render function";
+  if (typeof field.options === "function") {
+    return "its options are loaded asynchronously";
+  }
+  if (field.asyncValidation) return "it has an async validation";
+  if (field.validations && !getValidationRules(field.validations)) {
+    return "its validation cannot be represented as rules";
+  }
+  if (
+    field.defaultValue !== undefined &&
+    toJsonValue(field.defaultValue) === undefined
+  ) {
+    return "its default value cannot be stored as JSON";
+  }
+  return undefined;
+};
+
+const serializeField = (
+  field: IFieldSchema<any>,
+  skippedFields: SerializeFormSchemaResult["skippedFields"],
+  path = field.key as string
+): JsonFieldSchema | undefined => {
+  const reason = getSkipReason(field);
+  if (reason) {
+    skippedFields.push({ key: path, reason });
+    return undefined;
+  }
+
+  const {
+    validations,
+    defaultValue,
+    fields,
+    options,
+    tableConfig,
+    dateConfig,
+    fileConfig,
+    style,
+  } = field;
+  const jsonField: JsonFieldSchema = {
+    key: field.key,
+    label: field.label,
+    description: field.description,
+    helpText: field.helpText,
+    autoComplete: field.autoComplete,
+    placeholder: field.placeholder,
+    disabled: field.disabled,
+    readOnly: field.readOnly,
+    className: field.className,
+    type: field.type,
+    data: field.data,
+    otpConfig: field.otpConfig,
+    arrayConfig: field.arrayConfig,
+    displayConditions: field.displayConditions,
+    removeValidationConditions: field.removeValidationConditions,
+    requiredConditions: field.requiredConditions,
+    disabledConditions: field.disabledConditions,
+    readOnlyConditions: field.readOnlyConditions,
+    hiddenValuePolicy: field.hiddenValuePolicy,
+  };
+
+  if (defaultValue !== undefined) {
+    jsonField.defaultValue = toJsonValue(defaultValue);
+  }
+  if (validations) {
+    jsonField.validation = getValidationRules(validations);
+  }
+  if (Array.isArray(options)) jsonField.options = options;
+  if (style) jsonField.style = style as JsonFieldSchema["style"];
+  if (tableConfig) {
+    jsonField.tableConfig = {
+      ...tableConfig,
+      columns: tableConfig.columns?.map(({ key, label, sortable }) => ({
+        key,
+        label,
+        sortable,
+      })),
+    };
+  }
+  if (dateConfig) {
+    const { displayFormat } = dateConfig;
+    jsonField.dateConfig = { displayFormat };
+  }
+  if (fileConfig) {
+    const { accept, multiple, showPreviews } = fileConfig;
+    jsonField.fileConfig = { accept, multiple, showPreviews };
+  }
+  if (fields) {
+    jsonField.fields = fields.flatMap(
+      (subField) =>
+        serializeField(subField, skippedFields, `${path}.${subField.key}`) ?? []
+    );
+  }
+  return JSON.parse(JSON.stringify(jsonField));
+};
+
+/**
+ * Serializes the props of a form to a JSON form definition that `loadFormSchema` can load back.
+ * Zod validations are written as declarative rules. Fields that cannot be represented, such as fields
+ * with a render function, async options or an async validation, are left out and listed in `skippedFields`;
+ * callbacks and other functions of the form are not serialized.
+ * @template TFieldValues - The type of field values.
+ * @param {ISchemaFormProps<TFieldValues>} props - The props of the form.
+ * @returns {SerializeFormSchemaResult} - The JSON form definition and the fields left out.
+ */
+export const serializeFormSchema = <TFieldValues extends FieldValues>(
+  props: ISchemaFormProps<TFieldValues>
+): SerializeFormSchemaResult => {
+  const skippedFields: SerializeFormSchemaResult["skippedFields"] = [];
+  const schema: JsonFormSchema = {
+    formSlug: props.formSlug,
+    formLabel: props.formLabel,
+    formDescription: props.formDescription,
+    fields: props.schema.flatMap(
+      (field) => serializeField(field, skippedFields) ?? []
+    ),
+    steps: props.steps,
+    sections: props.sections,
+    tabs: props.tabs,
+    formDisabled: props.formDisabled,
+    enableConditionalRendering: props.enableConditionalRendering,
+    hiddenValuePolicy: props.hiddenValuePolicy,
+    enableValidations: props.enableValidations,
+    validationMode: props.validationMode,
+    reValidateMode: props.reValidateMode,
+    criteriaMode: props.criteriaMode,
+    persistFormResponse: props.persistFormResponse,
+  };
+
+  return { schema: JSON.parse(JSON.stringify(schema)), skippedFields };
+};
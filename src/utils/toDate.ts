@@ -0,0 +1,13 @@
+/**
+ * Converts a stored date value (Date, ISO string or timestamp) to a valid Date.
+ * @param {unknown} value - The value to convert.
+ * @returns {Date | undefined} - The date, or undefined if the value is not a valid date.
+ */
+export const toDate = (value: unknown): Date | undefined => {
+  if (value === undefined || value === null || value === "") {
+    return undefined;
+  }
+  const date =
+    value instanceof Date ? value : new Date(value as string | number);
+  return isNaN(date.getTime()) ? undefined : date;
+};
@@ -0,0 +1,29 @@
+import { JsonValue } from "../interface/form.interface";
+
+/**
+ * Converts a value to its JSON representation, with dates as ISO strings.
+ * @param {unknown} value - The value to convert.
+ * @returns {JsonValue | undefined} - The value, or undefined if it cannot be stored as JSON (e.g. files).
+ */
+export const toJsonValue = (value: unknown): JsonValue | undefined => {
+  if (value instanceof Date) return value.toISOString();
+  if (
+    value === null ||
+    ["string", "number", "boolean"].includes(typeof value)
+  ) {
+    return value as JsonValue;
+  }
+  if (Array.isArray(value)) {
+    const items = value.map(toJsonValue);
+    return items.includes(undefined) ? undefined : (items as JsonValue[]);
+  }
+  if (value && Object.getPrototypeOf(value) === Object.prototype) {
+    const entries = Object.entries(value)
+      .filter(([, item]) => item !== undefined)
+      .map(([key, item]) => [key, toJsonValue(item)] as const);
+    return entries.some(([, item]) => item === undefined)
+      ? undefined
+      : (Object.fromEntries(entries) as JsonValue);
+  }
+  return undefined;
+};
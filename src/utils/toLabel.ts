@@ -0,0 +1,13 @@
+/**
+ * Turns a field key into a label (e.g. "firstName" or "first_name" -> "First name").
+ * @param {string} key - The field key.
+ * @returns {string} - The label.
+ */
+export const toLabel = (key: string): string => {
+  const words = key
+    .replace(/([a-z0-9])([A-Z])/g, "$1 $2")
+    .replace(/[_-]+/g, " ")
+    .trim()
+    .toLowerCase();
+  return words.charAt(0).toUpperCase() + words.slice(1);
+};
@@ -1,4 +1,5 @@
 import { IFieldSchema } from "../interface/form.interface";
+import { checkDisplayConditions } from "./checkDisplayConditions";
 import React from "react";
 import { DeepPartialSkipArrayKey, FieldValues, Path } from "react-hook-form";
 
@@ -20,26 +21,10 @@ export const updateFieldVisibility = <TFieldValues extends FieldValues>(
       newVisibleFields.add(formItem.key);
       console.log("updateFieldVisibility newVisibleFields: ", newVisibleFields);
     } else {
-      const isVisible = formItem.displayConditions.every((condition) => {
-        const fieldValue = watchFields[condition.dependentField];
-        console.log("updateFieldVisibility fieldValue: ", fieldValue);
-        switch (condition.operator) {
-          case "===":
-            return fieldValue === condition.dependentFieldValue;
-          case "!==":
-            return fieldValue !== condition.dependentFieldValue;
-          case "<":
-            return fieldValue < condition.dependentFieldValue;
-          case "<=":
-            return fieldValue <= condition.dependentFieldValue;
-          case ">":
-            return fieldValue > condition.dependentFieldValue;
-          case ">=":
-            return fieldValue >= condition.dependentFieldValue;
-          default:
-            return false;
-        }
-      });
+      const isVisible = checkDisplayConditions(
+        formItem.displayConditions,
+        watchFields
+      );
       if (isVisible) {
         newVisibleFields.add(formItem.key);
         console.log(